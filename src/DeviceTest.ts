@@ -1,4 +1,5 @@
 import * as hz from 'horizon/core';
+import { horizonDeviceDetector } from './detectors';
 
 export class DeviceTest extends hz.Component<typeof DeviceTest> {
     static propsDefinition = {};
@@ -28,14 +29,8 @@ export class DeviceTest extends hz.Component<typeof DeviceTest> {
 
     // ✅ Helper to check if player is real (not server)
     isRealPlayer(player: hz.Player): boolean {
-        try {
-            const playerName = player.name.get();
-            // Server players typically have empty names or specific patterns
-            return playerName != null && playerName.length > 0 && playerName !== 'Server';
-        } catch (error) {
-            console.log('Unable to get player name - likely server player');
-            return false;
-        }
+        // Compare with the world's server player - names aren't reliable
+        return player.id !== this.world.getServerPlayer().id;
     }
 
     testDeviceDetection(player: hz.Player) {
@@ -45,13 +40,8 @@ export class DeviceTest extends hz.Component<typeof DeviceTest> {
             
             console.log(`✅ ${playerName} is using device type: ${deviceType}`);
             
-            // Convert to our simplified enum
-            let simpleType = 'desktop';
-            if (deviceType === hz.PlayerDeviceType.VR) {
-                simpleType = 'vr';
-            } else if (deviceType === hz.PlayerDeviceType.Mobile) {
-                simpleType = 'mobile';
-            }
+            // Convert to our simplified enum - same conversion InputMapper uses
+            const simpleType = horizonDeviceDetector(player)?.device;
             
             console.log(`✅ ${playerName} simplified device: ${simpleType}`);
             
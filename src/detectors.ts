@@ -0,0 +1,84 @@
+import * as hz from 'horizon/core';
+import { DeviceDetector, DeviceType, PlayerCategory } from './inputMapper';
+
+/**
+ * ========================================
+ * DEVICE DETECTORS FOR INPUT MAPPER
+ * ========================================
+ *
+ * WHAT IT DOES:
+ * Building blocks for the InputMapper's detection chain. Each detector looks
+ * at a player and says what it knows: their category (human, npc, spectator...),
+ * their device, both, or nothing.
+ *
+ * HOW TO USE:
+ * Add detectors with inputMapper.addDetector(). They run in the order added,
+ * before horizonDeviceDetector, which the InputMapper always runs last. The
+ * first detector to name a category wins, and so does the first to name a
+ * device - so a detector that only names a category still gets the player's
+ * real device from Horizon.
+ *
+ * EXAMPLE:
+ * ```
+ * inputMapper.addDetector(botDetector((player) => this.npcIds.has(player.id)));
+ * inputMapper.addDetector(categoryDetector('spectator', (player) => this.spectators.has(player.id)));
+ * ```
+ *
+ * The server player never reaches the chain - the InputMapper recognizes it
+ * on its own.
+ */
+
+// ========================================
+// BUILT-IN DETECTORS
+// ========================================
+
+/**
+ * Reads the device type Horizon reports for the player
+ * Always the last link in the InputMapper's chain
+ */
+export const horizonDeviceDetector: DeviceDetector = (player) => {
+    const deviceType = player.deviceType.get();
+
+    // Convert Horizon's device types to our simple types
+    if (deviceType === hz.PlayerDeviceType.VR) {
+        return { device: 'vr' };        // Quest headsets, etc.
+    } else if (deviceType === hz.PlayerDeviceType.Mobile) {
+        return { device: 'mobile' };    // Phones, tablets
+    }
+    return { device: 'desktop' };       // Desktop/web users
+};
+
+// ========================================
+// CATEGORY DETECTORS
+// ========================================
+
+/**
+ * Puts NPC and bot players in the 'npc' category
+ * Horizon doesn't flag bots on the player itself, so you provide the lookup
+ * (e.g. the ids of the NPCs your world spawned)
+ *
+ * @param isBot - Returns true for NPC/bot players
+ * @param device - Optional: device to route bots by when an action has no 'npc' handler
+ */
+export function botDetector(isBot: (player: hz.Player) => boolean, device?: DeviceType): DeviceDetector {
+    return (player) => {
+        if (isBot(player)) {
+            return { category: 'npc', device };
+        }
+    };
+}
+
+/**
+ * Puts matching players in a custom category, e.g. 'spectator' or 'test_account'
+ * They keep their real device, and actions can give the category its own handler
+ *
+ * @param category - Category name used in ActionHandlers.categories and getPlayerStats()
+ * @param matches - Returns true for players in this category
+ */
+export function categoryDetector(category: PlayerCategory, matches: (player: hz.Player) => boolean): DeviceDetector {
+    return (player) => {
+        if (matches(player)) {
+            return { category };
+        }
+    };
+}
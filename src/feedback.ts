@@ -0,0 +1,252 @@
+import * as hz from 'horizon/core';
+import { DeviceType, Handedness } from './inputMapper';
+import { localization } from './localization';
+
+/**
+ * ========================================
+ * FEEDBACK SERVICE - CUES THAT SUIT EACH DEVICE
+ * ========================================
+ *
+ * WHAT IT DOES:
+ * Prefabs ask for a cue by meaning - 'interact', 'success' or 'denied' - and
+ * the service plays what fits the player's device:
+ * - VR: a haptic pulse in the hand that grabbed, plus sound and particles
+ * - Mobile: a quick screen flash and a tap sound
+ * - Desktop: a brief highlight on the object, or a toast message
+ * Sounds and effects are gizmos you drag into the props, and each cue plays
+ * only for the player it's for.
+ *
+ * HOW TO USE:
+ * 1. Create an Empty Object named "Feedback_System" and attach this script
+ * 2. Drag Sound and Particle gizmos into the cue props you want (all optional)
+ * 3. For the mobile flash, make a screen overlay (e.g. a Custom UI) and drag
+ *    it into flashOverlay; for the desktop highlight, an outline or glow
+ *    object into highlight - both start hidden and are shown per player
+ * 4. Point your prefab at it and play cues:
+ * ```
+ * this.feedback.play(player, 'denied', deviceType, { message: 'door.locked' });
+ * this.feedback.play(ctx.player, 'interact', 'vr', { hand: ctx.hand });
+ * ```
+ *
+ * CUSTOMIZING:
+ * setRecipe() changes what a cue does on one device:
+ * ```
+ * feedback.setRecipe('success', 'mobile', { sound: true, vfx: true, toast: true });
+ * ```
+ */
+
+// What a cue means - prefabs pick one, the recipe decides how it feels
+export type FeedbackCue = 'interact' | 'success' | 'denied';
+
+// What one cue does on one device
+export interface FeedbackRecipe {
+    haptics?: {                     // VR: pulse on the player's hand
+        duration: number;           // Milliseconds
+        strength: hz.HapticStrength;
+        sharpness: hz.HapticSharpness;
+    };
+    sound?: boolean;                // Play the cue's sound gizmo
+    vfx?: boolean;                  // Play the cue's particle gizmo
+    flash?: boolean;                // Show flashOverlay briefly
+    highlight?: boolean;            // Show highlight briefly
+    toast?: boolean;                // Show the message as a popup (if play() was given one)
+}
+
+// Extra details for one play() call
+export interface FeedbackOptions {
+    hand?: Handedness;              // VR: the hand to pulse (default: right)
+    message?: string;               // Toast text - a message ID or plain text
+}
+
+// What each cue does out of the box
+export const DEFAULT_FEEDBACK_RECIPES: Record<FeedbackCue, Record<DeviceType, FeedbackRecipe>> = {
+    interact: {
+        vr: { haptics: { duration: 40, strength: hz.HapticStrength.Light, sharpness: hz.HapticSharpness.Sharp }, sound: true, vfx: true },
+        mobile: { flash: true, sound: true },
+        desktop: { highlight: true, sound: true },
+    },
+    success: {
+        vr: { haptics: { duration: 80, strength: hz.HapticStrength.Medium, sharpness: hz.HapticSharpness.Soft }, sound: true, vfx: true },
+        mobile: { flash: true, sound: true, vfx: true },
+        desktop: { highlight: true, sound: true, vfx: true },
+    },
+    denied: {
+        vr: { haptics: { duration: 150, strength: hz.HapticStrength.Medium, sharpness: hz.HapticSharpness.Sharp }, sound: true, toast: true },
+        mobile: { flash: true, sound: true, toast: true },
+        desktop: { sound: true, toast: true },
+    },
+};
+
+export class FeedbackService extends hz.Component<typeof FeedbackService> {
+
+    // ========================================
+    // CONFIGURATION PROPERTIES (Visible in Editor)
+    // ========================================
+    static propsDefinition = {
+        interactSound: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: Sound gizmo played when a player interacts"
+        },
+        interactVfx: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: Particle gizmo played when a player interacts"
+        },
+        successSound: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: Sound gizmo played when something works out"
+        },
+        successVfx: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: Particle gizmo played when something works out"
+        },
+        deniedSound: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: Sound gizmo played when a player is turned away"
+        },
+        deniedVfx: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: Particle gizmo played when a player is turned away"
+        },
+        flashOverlay: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: screen overlay shown briefly to mobile players (keep it hidden by default)"
+        },
+        highlight: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: outline or glow object shown briefly to desktop players (keep it hidden by default)"
+        },
+        flashDuration: {
+            type: hz.PropTypes.Number,
+            default: 0.15,
+            description: "Seconds the flash and highlight stay up"
+        },
+        toastDuration: {
+            type: hz.PropTypes.Number,
+            default: 2,
+            description: "Seconds toast messages stay on screen"
+        }
+    };
+
+    // ========================================
+    // INTERNAL STATE VARIABLES
+    // ========================================
+
+    // Cue -> device -> what to play, starting from DEFAULT_FEEDBACK_RECIPES
+    private recipes: Record<FeedbackCue, Record<DeviceType, FeedbackRecipe>> = {
+        interact: { ...DEFAULT_FEEDBACK_RECIPES.interact },
+        success: { ...DEFAULT_FEEDBACK_RECIPES.success },
+        denied: { ...DEFAULT_FEEDBACK_RECIPES.denied },
+    };
+
+    // Overlay entity -> players it's showing for, and the timers that hide it again
+    private pulses = new Map<hz.Entity, Map<number, { player: hz.Player, timer: number }>>();
+
+    start() {
+        // Flash and highlight objects are shown per player - nobody sees them until then
+        [this.props.flashOverlay, this.props.highlight].forEach((overlay) => {
+            overlay?.setVisibilityForPlayers([], hz.PlayerVisibilityMode.VisibleTo);
+        });
+        console.log('✅ Feedback Service ready');
+    }
+
+    dispose() {
+        this.pulses.forEach((showing) => showing.forEach(({ timer }) => this.async.clearTimeout(timer)));
+        this.pulses.clear();
+    }
+
+    // ========================================
+    // PUBLIC API
+    // ========================================
+
+    /**
+     * Plays a cue for one player, in the way that suits their device
+     *
+     * @param player - Who the cue is for - nobody else sees or hears it
+     * @param cue - 'interact', 'success' or 'denied'
+     * @param deviceType - The player's device (from InputMapper)
+     * @param options - Optional: the VR hand to pulse, a toast message
+     */
+    play(player: hz.Player, cue: FeedbackCue, deviceType: DeviceType, options: FeedbackOptions = {}) {
+        const recipe = this.recipes[cue][deviceType];
+
+        if (recipe.haptics) {
+            const hand = options.hand === 'left' ? player.leftHand : player.rightHand;
+            hand.playHaptics(recipe.haptics.duration, recipe.haptics.strength, recipe.haptics.sharpness);
+        }
+        if (recipe.sound) {
+            this.getSound(cue)?.as(hz.AudioGizmo).play({ fade: 0, players: [player] });
+        }
+        if (recipe.vfx) {
+            this.getVfx(cue)?.as(hz.ParticleGizmo).play({ players: [player] });
+        }
+        if (recipe.flash && this.props.flashOverlay) {
+            this.pulse(this.props.flashOverlay, player);
+        }
+        if (recipe.highlight && this.props.highlight) {
+            this.pulse(this.props.highlight, player);
+        }
+        if (recipe.toast && options.message) {
+            this.world.ui.showPopupForPlayer(player, localization.localize(player, options.message), this.props.toastDuration);
+        }
+    }
+
+    /**
+     * Changes what a cue does on one device
+     */
+    setRecipe(cue: FeedbackCue, deviceType: DeviceType, recipe: FeedbackRecipe) {
+        this.recipes[cue][deviceType] = recipe;
+    }
+
+    /**
+     * Gets what a cue does on one device
+     */
+    getRecipe(cue: FeedbackCue, deviceType: DeviceType): FeedbackRecipe {
+        return this.recipes[cue][deviceType];
+    }
+
+    // ========================================
+    // HELPERS
+    // ========================================
+
+    private getSound(cue: FeedbackCue): hz.Entity | undefined {
+        switch (cue) {
+            case 'interact': return this.props.interactSound;
+            case 'success': return this.props.successSound;
+            case 'denied': return this.props.deniedSound;
+        }
+    }
+
+    private getVfx(cue: FeedbackCue): hz.Entity | undefined {
+        switch (cue) {
+            case 'interact': return this.props.interactVfx;
+            case 'success': return this.props.successVfx;
+            case 'denied': return this.props.deniedVfx;
+        }
+    }
+
+    /**
+     * Shows an overlay to one player for flashDuration seconds
+     * Pulsing again while it's up restarts the timer
+     */
+    private pulse(overlay: hz.Entity, player: hz.Player) {
+        const showing = this.pulses.get(overlay) ?? new Map<number, { player: hz.Player, timer: number }>();
+        this.pulses.set(overlay, showing);
+
+        const current = showing.get(player.id);
+        if (current) this.async.clearTimeout(current.timer);
+
+        const timer = this.async.setTimeout(() => {
+            showing.delete(player.id);
+            this.updateVisibility(overlay, showing);
+        }, this.props.flashDuration * 1000);
+        showing.set(player.id, { player, timer });
+        this.updateVisibility(overlay, showing);
+    }
+
+    private updateVisibility(overlay: hz.Entity, showing: Map<number, { player: hz.Player }>) {
+        const players = Array.from(showing.values(), ({ player }) => player);
+        overlay.setVisibilityForPlayers(players, hz.PlayerVisibilityMode.VisibleTo);
+    }
+}
+
+hz.Component.register(FeedbackService);
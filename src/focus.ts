@@ -0,0 +1,281 @@
+import * as hz from 'horizon/core';
+import { ActionSubscription } from './inputMapper';
+import { PlayerRegistry } from './playerRegistry';
+
+/**
+ * ========================================
+ * FOCUS TRACKER - WHICH OBJECT A PLAYER MEANS
+ * ========================================
+ *
+ * WHAT IT DOES:
+ * When interactables sit close together - two doors side by side, a lever
+ * next to a chest - their trigger zones overlap and one press would reach all
+ * of them. The focus tracker picks one target per player: the registered
+ * object nearest the player's aim, within reach. It shows that target's
+ * highlight to the player, and bindings made with { focus: true } only fire
+ * for it.
+ *
+ * Aim is a ray:
+ * - VR: head gaze by default, or the controller's ray if a local script reports it
+ * - Desktop: the screen-center ray (the camera's forward)
+ * - Mobile: the ray through the point the player tapped
+ * Without a reported ray the head gaze is used on every device.
+ *
+ * HOW TO USE:
+ * Don't create your own - use the InputMapper's:
+ * ```
+ * inputMapper.focus.addTarget(this.entity, { maxDistance: 2, highlight: this.props.outline });
+ * inputMapper.bindAction(UseLever, {
+ *     any: [{ input: 'control', action: hz.PlayerInputAction.RightPrimary }]
+ * }, { entity: this.entity, focus: true });   // Only fires while this lever is in focus
+ *
+ * // From a local script: aim where the camera looks, or where the player tapped
+ * inputMapper.focus.reportAim(player, cameraPosition, cameraForward);
+ * ```
+ *
+ * PICKING:
+ * Targets further than maxDistance, or more than maxAngle degrees off the
+ * aim, can't be picked. Of the rest, the highest priority wins, then the one
+ * with the lowest angle and distance (each measured against its limits).
+ */
+
+// Where a player is aiming from, and which way
+export interface AimRay {
+    origin: hz.Vec3;
+    direction: hz.Vec3;
+}
+
+// How an object can be picked
+export interface FocusTargetOptions {
+    maxDistance?: number;   // Optional: meters from the aim origin (default 3)
+    maxAngle?: number;      // Optional: degrees off the aim (default 30)
+    priority?: number;      // Optional: higher wins over anything lower in reach (default 0)
+    highlight?: hz.Entity;  // Optional: outline or glow shown only to players focusing this target
+}
+
+// Called when a player's focus moves - from/to are null for "nothing"
+export type FocusChangeListener = (player: hz.Player, from: hz.Entity | null, to: hz.Entity | null) => void;
+
+// Seconds between focus updates while there are targets
+export const FOCUS_UPDATE_INTERVAL = 0.1;
+
+// Nearer than this, a target counts as dead ahead whichever way the player looks
+const POINT_BLANK = 0.01;
+
+interface FocusTarget extends Required<Omit<FocusTargetOptions, 'highlight'>> {
+    entity: hz.Entity;
+    highlight?: hz.Entity;
+}
+
+export class FocusTracker {
+    // Everything that can be focused, in the order it was added
+    private targets: FocusTarget[] = [];
+
+    // Rays local scripts reported with reportAim(), per player id
+    private reportedAims = new Map<number, AimRay>();
+
+    // Player id -> the player and the target they focus
+    private focused = new Map<number, { player: hz.Player, entity: hz.Entity }>();
+
+    private changeListeners: FocusChangeListener[] = [];
+
+    // Interval that keeps focus and highlights current while there are targets
+    private timer: number | null = null;
+
+    /**
+     * @param component - Component whose timers drive the updates
+     * @param players - The players to track
+     */
+    constructor(private readonly component: hz.Component, private readonly players: PlayerRegistry) {
+        // Leaving players lose their aim and their highlight
+        this.players.onLeave(({ player }) => {
+            this.reportedAims.delete(player.id);
+            this.setFocus(player, null);
+        });
+    }
+
+    // ========================================
+    // TARGETS
+    // ========================================
+
+    /**
+     * Makes an object something players can focus
+     * @returns A subscription - call disconnect() to remove it
+     */
+    addTarget(entity: hz.Entity, options: FocusTargetOptions = {}): ActionSubscription {
+        const target: FocusTarget = {
+            entity,
+            maxDistance: options.maxDistance ?? 3,
+            maxAngle: options.maxAngle ?? 30,
+            priority: options.priority ?? 0,
+            highlight: options.highlight,
+        };
+        this.targets.push(target);
+        target.highlight?.setVisibilityForPlayers([], hz.PlayerVisibilityMode.VisibleTo);
+        this.updateTimer();
+
+        return {
+            disconnect: () => {
+                if (!this.targets.includes(target)) return;
+                this.focused.forEach(({ player, entity: current }) => {
+                    if (current === entity) this.setFocus(player, null);
+                });
+                this.targets = this.targets.filter((entry) => entry !== target);
+                this.updateTimer();
+            }
+        };
+    }
+
+    /**
+     * Gets every object players can focus
+     */
+    getTargets(): hz.Entity[] {
+        return this.targets.map(({ entity }) => entity);
+    }
+
+    // ========================================
+    // AIM
+    // ========================================
+
+    /**
+     * Aim a player with a ray only their device knows - the VR controller ray,
+     * the desktop screen-center ray, the mobile tap ray
+     * Call it from a script running on the player's device (or send it over from one)
+     */
+    reportAim(player: hz.Player, origin: hz.Vec3, direction: hz.Vec3) {
+        this.reportedAims.set(player.id, { origin, direction });
+        this.update(player);
+    }
+
+    /**
+     * Goes back to aiming a player by head gaze
+     */
+    clearAim(player: hz.Player) {
+        this.reportedAims.delete(player.id);
+        this.update(player);
+    }
+
+    /**
+     * Gets the ray a player aims with - reported, or their head gaze
+     */
+    getAim(player: hz.Player): AimRay {
+        return this.reportedAims.get(player.id) ?? { origin: player.head.position.get(), direction: player.head.forward.get() };
+    }
+
+    // ========================================
+    // FOCUS
+    // ========================================
+
+    /**
+     * Gets the object a player focuses right now, or null
+     * Re-picks on the spot, so it's current even between updates
+     */
+    getFocus(player: hz.Player): hz.Entity | null {
+        this.update(player);
+        return this.focused.get(player.id)?.entity ?? null;
+    }
+
+    /**
+     * Re-picks the focus of one player, or of everyone in the world
+     */
+    update(player?: hz.Player) {
+        const players = player ? [player] : this.players.getAll().map((record) => record.player);
+        players.forEach((entry) => this.setFocus(entry, this.pick(entry)));
+    }
+
+    /**
+     * Get told when a player's focus moves
+     * @param listener - Called with (player, from, to)
+     * @returns A subscription - call disconnect() to stop listening
+     */
+    onFocusChanged(listener: FocusChangeListener): ActionSubscription {
+        this.changeListeners.push(listener);
+        return {
+            disconnect: () => {
+                this.changeListeners = this.changeListeners.filter((entry) => entry !== listener);
+            }
+        };
+    }
+
+    /**
+     * Stops updating and hides every highlight
+     */
+    dispose() {
+        this.focused.forEach(({ player }) => this.setFocus(player, null));
+        this.targets = [];
+        this.updateTimer();
+    }
+
+    // ========================================
+    // HELPERS
+    // ========================================
+
+    /**
+     * The best target for a player's aim, or null if nothing is in reach
+     */
+    private pick(player: hz.Player): hz.Entity | null {
+        const aim = this.getAim(player);
+        let best: { target: FocusTarget, score: number } | null = null;
+
+        for (const target of this.targets) {
+            const offset = target.entity.position.get().sub(aim.origin);
+            const distance = offset.magnitude();
+            const angle = distance < POINT_BLANK ? 0 : angleBetween(aim.direction, offset);
+            if (distance > target.maxDistance || angle > target.maxAngle) continue;
+
+            const score = angle / target.maxAngle + distance / target.maxDistance;
+            if (!best || target.priority > best.target.priority
+                || (target.priority === best.target.priority && score < best.score)) {
+                best = { target, score };
+            }
+        }
+        return best?.target.entity ?? null;
+    }
+
+    private setFocus(player: hz.Player, entity: hz.Entity | null) {
+        const from = this.focused.get(player.id)?.entity ?? null;
+        if (from === entity) return;
+
+        if (entity) {
+            this.focused.set(player.id, { player, entity });
+        } else {
+            this.focused.delete(player.id);
+        }
+        [from, entity].forEach((changed) => changed && this.updateHighlight(changed));
+
+        for (const listener of this.changeListeners) {
+            try {
+                listener(player, from, entity);
+            } catch (error) {
+                console.error('❌ Focus change listener error:', error);
+            }
+        }
+    }
+
+    // Shows a target's highlight to exactly the players focusing it
+    private updateHighlight(entity: hz.Entity) {
+        const highlight = this.targets.find((target) => target.entity === entity)?.highlight;
+        if (!highlight) return;
+
+        const viewers = [...this.focused.values()]
+            .filter((entry) => entry.entity === entity)
+            .map((entry) => entry.player);
+        highlight.setVisibilityForPlayers(viewers, hz.PlayerVisibilityMode.VisibleTo);
+    }
+
+    // Runs the update interval only while there's something to focus
+    private updateTimer() {
+        if (this.targets.length > 0 && this.timer === null) {
+            this.timer = this.component.async.setInterval(() => this.update(), FOCUS_UPDATE_INTERVAL * 1000);
+        } else if (this.targets.length === 0 && this.timer !== null) {
+            this.component.async.clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+}
+
+// Degrees between two directions
+function angleBetween(a: hz.Vec3, b: hz.Vec3): number {
+    const cosine = a.normalize().dot(b.normalize());
+    return Math.acos(Math.min(1, Math.max(-1, cosine))) * 180 / Math.PI;
+}
@@ -0,0 +1,233 @@
+import * as hz from 'horizon/core';
+import { ActionGuard, InteractionContext } from './inputMapper';
+import { localization } from './localization';
+
+/**
+ * ========================================
+ * READY-MADE GUARDS FOR INPUT MAPPER ACTIONS
+ * ========================================
+ *
+ * WHAT IT DOES:
+ * Common preconditions you can attach to any action instead of repeating
+ * the same checks in every device handler.
+ *
+ * HOW TO USE:
+ * Pass guards to defineAction() (checked on every trigger) or to
+ * registerAction() (only gates those handlers). A guard returns nothing to
+ * allow the trigger, or a reason string to reject it. The reason comes back
+ * in trigger()'s result and goes to every onRejected() listener.
+ *
+ * EXAMPLE:
+ * ```
+ * const Fire = defineAction('weapon_fire', {
+ *   guards: [
+ *     cooldown(0.5),
+ *     requireTeam((player) => teams.get(player.id), ['red']),
+ *   ]
+ * });
+ * ```
+ *
+ * Each call creates its own guard with its own state - a cooldown() shared
+ * between two actions is one cooldown for both.
+ *
+ * Reasons are message IDs or plain text, and come back in the player's
+ * language (see localization.ts).
+ */
+
+// ========================================
+// TIMING GUARDS
+// ========================================
+
+/**
+ * Per-player cooldown - rejects until `seconds` have passed since the player's last allowed trigger
+ *
+ * @param seconds - Cooldown length
+ * @param reason - Optional: rejection reason shown to the player - a message ID or plain text
+ */
+export function cooldown(seconds: number, reason = 'guard.cooldown'): ActionGuard {
+    const lastAllowed = new Map<number, number>();
+
+    return (context) => {
+        const now = Date.now();
+        const last = lastAllowed.get(context.player.id);
+        if (last !== undefined && now - last < seconds * 1000) {
+            return localization.localize(context.player, reason);
+        }
+        lastAllowed.set(context.player.id, now);
+    };
+}
+
+/**
+ * Only allows triggers during certain hours of the day, e.g. a shop open 9 to 17
+ * Windows that end before they start wrap past midnight (22 to 6 is overnight)
+ *
+ * @param fromHour - Start hour, 0-24 (fractions allowed: 9.5 is 9:30)
+ * @param toHour - End hour, exclusive
+ * @param reason - Optional: rejection reason shown to the player - a message ID or plain text
+ * @param clock - Optional: returns the current time (default: the server's clock)
+ */
+export function duringHours(
+    fromHour: number,
+    toHour: number,
+    reason = 'guard.duringHours',
+    clock: () => Date = () => new Date()
+): ActionGuard {
+    return (context) => {
+        const now = clock();
+        const hour = now.getHours() + now.getMinutes() / 60;
+        const open = fromHour <= toHour
+            ? hour >= fromHour && hour < toHour
+            : hour >= fromHour || hour < toHour;
+        if (!open) {
+            return localization.localize(context.player, reason);
+        }
+    };
+}
+
+/**
+ * Per-player rate limit - allows at most `maxTriggers` within any `windowSeconds`
+ *
+ * @param maxTriggers - How many triggers are allowed per window
+ * @param windowSeconds - Length of the sliding window
+ * @param reason - Optional: rejection reason shown to the player - a message ID or plain text
+ */
+export function rateLimit(maxTriggers: number, windowSeconds: number, reason = 'guard.rateLimit'): ActionGuard {
+    const history = new Map<number, number[]>();
+
+    return (context) => {
+        const now = Date.now();
+        const windowStart = now - windowSeconds * 1000;
+        const recent = (history.get(context.player.id) ?? []).filter((time) => time > windowStart);
+
+        if (recent.length >= maxTriggers) {
+            history.set(context.player.id, recent);
+            return localization.localize(context.player, reason);
+        }
+        recent.push(now);
+        history.set(context.player.id, recent);
+    };
+}
+
+// ========================================
+// PLAYER GUARDS
+// ========================================
+
+/**
+ * Only players on one of the listed teams may trigger
+ * Horizon has no built-in teams, so you provide the lookup
+ *
+ * @param getTeam - Returns the player's team (or undefined if they have none)
+ * @param teams - Teams that are allowed
+ * @param reason - Optional: rejection reason shown to the player - a message ID or plain text
+ */
+export function requireTeam(
+    getTeam: (player: hz.Player) => string | undefined,
+    teams: string[],
+    reason = 'guard.team'
+): ActionGuard {
+    return (context) => {
+        const { player } = context;
+        const team = getTeam(player);
+        if (team === undefined || !teams.includes(team)) {
+            // {teams} reads "red or blue" in the player's language
+            const or = localization.translate(player, 'list.or');
+            return localization.localize(player, reason, { teams: teams.join(` ${or} `) });
+        }
+    };
+}
+
+/**
+ * Only players holding at least one of the listed roles may trigger
+ *
+ * @param getRoles - Returns the player's roles (e.g. ['builder', 'moderator'])
+ * @param roles - Roles that are allowed
+ * @param reason - Optional: rejection reason shown to the player - a message ID or plain text
+ */
+export function requireRole(
+    getRoles: (player: hz.Player) => string[],
+    roles: string[],
+    reason = 'guard.role'
+): ActionGuard {
+    return (context) => {
+        const playerRoles = getRoles(context.player);
+        if (!playerRoles.some((role) => roles.includes(role))) {
+            return localization.localize(context.player, reason);
+        }
+    };
+}
+
+/**
+ * Only the listed players may trigger - matched by name, since ids change between sessions
+ *
+ * @param names - Player names that are allowed
+ * @param reason - Optional: rejection reason shown to the player - a message ID or plain text
+ */
+export function allowPlayers(names: string[], reason = 'guard.allowPlayers'): ActionGuard {
+    const allowed = new Set(names);
+
+    return (context) => {
+        if (!allowed.has(context.player.name.get())) {
+            return localization.localize(context.player, reason);
+        }
+    };
+}
+
+/**
+ * Only players within `maxDistance` meters of the interacted entity may trigger
+ * Triggers without an entity in their context are allowed
+ *
+ * @param maxDistance - Maximum distance in meters
+ * @param reason - Optional: rejection reason shown to the player - a message ID or plain text
+ */
+export function withinDistance(maxDistance: number, reason = 'guard.withinDistance'): ActionGuard {
+    return (context) => {
+        if (!context.entity) return;
+
+        const distance = context.player.position.get().distance(context.entity.position.get());
+        if (distance > maxDistance) {
+            return localization.localize(context.player, reason);
+        }
+    };
+}
+
+// ========================================
+// CUSTOM GUARDS
+// ========================================
+
+/**
+ * Passes if any one of the guards passes - e.g. a keycard OR the staff role
+ * Rejects with the first guard's reason when none pass
+ *
+ * @param guards - Guards to try, in order
+ */
+export function anyOf<TData = any>(...guards: ActionGuard<TData>[]): ActionGuard<TData> {
+    return (context, info) => {
+        let firstReason: string | undefined;
+        for (const guard of guards) {
+            const reason = guard(context, info);
+            if (!reason) return;
+            firstReason ??= reason;
+        }
+        return firstReason;
+    };
+}
+
+/**
+ * Turns any yes/no check into a guard
+ *
+ * @param predicate - Return true to allow the trigger
+ * @param reason - Rejection reason when the predicate returns false - a message ID or plain text
+ *
+ * EXAMPLE:
+ * guards: [when((ctx) => !this.isLocked, 'The door is locked')]
+ */
+export function when<TData = any>(
+    predicate: (context: InteractionContext<TData>) => boolean,
+    reason: string
+): ActionGuard<TData> {
+    return (context) => {
+        if (!predicate(context)) {
+            return localization.localize(context.player, reason);
+        }
+    };
+}
@@ -0,0 +1,223 @@
+import * as hz from 'horizon/core';
+import { ActionSubscription, DeviceType, InputMapper } from './inputMapper';
+import { localization } from './localization';
+
+/**
+ * ========================================
+ * HINTS - DEVICE-AWARE INTERACTION PROMPTS
+ * ========================================
+ *
+ * WHAT IT DOES:
+ * Shows each player a prompt that matches their device - "Grab the door to
+ * open" in VR, "Tap the door to open" on mobile, "Click the door to open" on
+ * desktop. Prompts are built from templates, follow the player's device when
+ * it changes, update when the thing they point at changes (open -> close), and
+ * go away when the player walks off.
+ *
+ * HOW TO USE:
+ * 1. Create a service with your InputMapper and a display
+ * 2. Describe the hint: what the player does it to, and what it does
+ * 3. Show it from a trigger zone - or call show()/hide() yourself
+ * ```
+ * const hints = new HintService(this, inputMapper, popupHintDisplay(this.world));
+ * hints.watchTrigger(trigger, { target: 'lever', action: () => this.isOn ? 'switch off' : 'switch on' });
+ * // ...after the lever flips:
+ * hints.refresh();
+ * ```
+ *
+ * TEMPLATES:
+ * Templates fill in {verb}, {target}, {action} and {player}. The default is
+ * "{verb} the {target} to {action}", with the verbs Grab, Tap and Click.
+ * Override one device, or all of them, per hint:
+ * ```
+ * { target: 'door', action: 'open', templates: { vr: 'Grab the door handle to {action}' } }
+ * ```
+ * Targets, actions and templates can be message IDs (see localization.ts) -
+ * hints are then worded in each player's language, verbs included.
+ *
+ * DISPLAYS:
+ * - consoleHintDisplay: logs "💡 Name: hint" - handy while building (the default)
+ * - popupHintDisplay(world): an on-screen popup for just that player
+ * - worldTextHintDisplay(label): a Text Gizmo in the world, shown only to
+ *   players with a hint. One label has one text, so players on different
+ *   devices see the latest hint - use popups when that matters
+ * Write your own by implementing HintDisplay.
+ *
+ * Call dispose() from your component's dispose().
+ */
+
+// What a hint says - the same for every device, templates do the rest
+export interface Hint {
+    action: string | (() => string);    // What the interaction does - a function is re-read on refresh()
+    target?: string;                    // What the player interacts with (default 'object')
+    templates?: Partial<Record<DeviceType, string>>; // Per-device templates, e.g. { vr: 'Pull the {target} to {action}' }
+}
+
+// Shows and hides hint text for one player at a time
+export interface HintDisplay {
+    show(player: hz.Player, text: string): void;
+    hide(player: hz.Player): void;
+}
+
+// ========================================
+// DISPLAYS
+// ========================================
+
+// Logs hints to the console
+export const consoleHintDisplay: HintDisplay = {
+    show: (player, text) => console.log(`💡 ${player.name.get()}: ${text}`),
+    hide: () => {},
+};
+
+/**
+ * On-screen popups - popups can't be taken down early, so hide() does nothing
+ * and the popup times out by itself
+ * @param displayTime - Optional: seconds each popup stays up
+ */
+export function popupHintDisplay(world: hz.World, displayTime = 3): HintDisplay {
+    return {
+        show: (player, text) => world.ui.showPopupForPlayer(player, text, displayTime),
+        hide: () => {},
+    };
+}
+
+/**
+ * A Text Gizmo in the world, visible only to players who have a hint
+ * @param label - The Text Gizmo entity
+ */
+export function worldTextHintDisplay(label: hz.Entity): HintDisplay {
+    const text = label.as(hz.TextGizmo);
+    const viewers = new Map<number, hz.Player>();
+    const updateVisibility = () => label.setVisibilityForPlayers([...viewers.values()], hz.PlayerVisibilityMode.VisibleTo);
+
+    updateVisibility();
+    return {
+        show: (player, hint) => {
+            text.text.set(hint);
+            viewers.set(player.id, player);
+            updateVisibility();
+        },
+        hide: (player) => {
+            viewers.delete(player.id);
+            updateVisibility();
+        },
+    };
+}
+
+// ========================================
+// HINT SERVICE
+// ========================================
+
+export class HintService {
+    // Player id -> the hint they're seeing and the text it last showed
+    private active = new Map<number, { player: hz.Player, hint: Hint, text: string }>();
+
+    private subscriptions: Array<ActionSubscription | hz.EventSubscription> = [];
+
+    /**
+     * @param component - Component whose lifetime trigger listeners share
+     * @param inputMapper - Tells us each player's device
+     * @param display - Optional: where hints appear (default: the console)
+     */
+    constructor(
+        private readonly component: hz.Component,
+        private readonly inputMapper: InputMapper,
+        private readonly display: HintDisplay = consoleHintDisplay
+    ) {
+        // A player who switches device needs the other device's wording
+        this.subscriptions.push(inputMapper.onDeviceChanged((player) => this.refresh(player)));
+    }
+
+    /**
+     * Shows a hint to a player, replacing any hint they already see
+     */
+    show(player: hz.Player, hint: Hint) {
+        const text = this.format(player, hint);
+        const current = this.active.get(player.id);
+        this.active.set(player.id, { player, hint, text });
+
+        if (current?.text !== text) {
+            this.display.show(player, text);
+        }
+    }
+
+    /**
+     * Takes a player's hint down
+     */
+    hide(player: hz.Player) {
+        if (this.active.delete(player.id)) {
+            this.display.hide(player);
+        }
+    }
+
+    /**
+     * Re-reads hints after something changed (the door opened, the player
+     * switched device) - only players whose text changed see an update
+     * @param player - Optional: just this player (default: everyone with a hint)
+     */
+    refresh(player?: hz.Player) {
+        const entries = player ? [this.active.get(player.id)] : [...this.active.values()];
+        for (const entry of entries) {
+            if (entry) this.show(entry.player, entry.hint);
+        }
+    }
+
+    /**
+     * True while the player has a hint up
+     */
+    isShowing(player: hz.Player): boolean {
+        return this.active.has(player.id);
+    }
+
+    /**
+     * Shows `hint` to players in a trigger zone, and hides it when they leave
+     * the zone or the world
+     * @returns A subscription - call disconnect() to stop watching
+     */
+    watchTrigger(trigger: hz.Entity, hint: Hint): ActionSubscription {
+        const watched = new Set<number>();
+        const leave = (player: hz.Player) => {
+            if (watched.delete(player.id)) this.hide(player);
+        };
+
+        const events = [
+            this.component.connectCodeBlockEvent(trigger, hz.CodeBlockEvents.OnPlayerEnterTrigger, (player: hz.Player) => {
+                watched.add(player.id);
+                this.show(player, hint);
+            }),
+            this.component.connectCodeBlockEvent(trigger, hz.CodeBlockEvents.OnPlayerExitTrigger, leave),
+            this.component.connectCodeBlockEvent(this.component.entity, hz.CodeBlockEvents.OnPlayerExitWorld, leave),
+        ];
+        const subscription = {
+            disconnect: () => {
+                events.forEach((event) => event.disconnect());
+                this.subscriptions = this.subscriptions.filter((entry) => entry !== subscription);
+            }
+        };
+        this.subscriptions.push(subscription);
+        return subscription;
+    }
+
+    /**
+     * Builds the text a player sees for a hint
+     */
+    format(player: hz.Player, hint: Hint): string {
+        const deviceType = this.inputMapper.detectDevice(player);
+        const action = typeof hint.action === 'function' ? hint.action() : hint.action;
+        return localization.localize(player, hint.templates?.[deviceType] ?? 'hint.template', {
+            verb: localization.translate(player, `verb.${deviceType}`),
+            target: localization.localize(player, hint.target ?? 'hint.object'),
+            action: localization.localize(player, action),
+            player: player.name.get(),
+        });
+    }
+
+    /**
+     * Hides every hint and stops listening
+     */
+    dispose() {
+        [...this.active.values()].forEach(({ player }) => this.hide(player));
+        [...this.subscriptions].forEach((subscription) => subscription.disconnect());
+        this.subscriptions = [];
+    }
+}
@@ -1,4 +1,8 @@
 import * as hz from 'horizon/core';
+import { horizonDeviceDetector } from './detectors';
+import { FocusTracker } from './focus';
+import { localization } from './localization';
+import { PlayerRegistry } from './playerRegistry';
 
 /**
  * ========================================
@@ -20,40 +24,376 @@ import * as hz from 'horizon/core';
  * 2. In your interactive objects (doors, buttons, etc), reference this object
  * 3. Register actions with device-specific handlers using registerAction()
  * 4. Trigger actions using trigger() - automatically uses correct handler
+ *    (or use bindAction() to fire them straight from grabs, taps, keys and trigger zones)
  * 
  * EXAMPLE USAGE:
  * ```
+ * // Declare the action once, with the data it carries
+ * const DoorInteract = defineAction<{ doorName: string }>('door_interact');
+ * 
  * // Register a door interaction
- * inputMapper.registerAction('door_interact', {
+ * inputMapper.registerAction(DoorInteract, {
  *   vr: (ctx) => console.log('VR user grabbed door'),
  *   mobile: (ctx) => console.log('Mobile user tapped door'),
  *   desktop: (ctx) => console.log('Desktop user clicked door')
  * });
  * 
  * // Later, trigger the interaction (device type detected automatically)
- * inputMapper.trigger('door_interact', { player: somePlayer });
+ * inputMapper.trigger(DoorInteract, { player: somePlayer, data: { doorName: 'Front' } });
  * ```
  */
 
 // Type definitions for better code understanding
 export type DeviceType = 'vr' | 'mobile' | 'desktop';
 
-export interface InteractionContext {
+// What kind of player this is - 'human' players are routed by device,
+// other categories can have handlers of their own (see ActionHandlers.categories)
+export type PlayerCategory = 'human' | 'server' | 'npc' | (string & {});
+
+// Who a player is and which device to route them by (see classifyPlayer)
+export interface PlayerClassification {
+    category: PlayerCategory;
+    device: DeviceType;
+}
+
+// One link in the detection chain - return what you know, or undefined to pass
+// The first detector to name a category wins, and the first to name a device wins
+export type DeviceDetector = (player: hz.Player) => Partial<PlayerClassification> | undefined;
+
+// Rough size/kind of the screen a player looks at
+export type ScreenClass = 'headset' | 'phone' | 'tablet' | 'monitor';
+
+// What a player's device can do - finer than DeviceType
+export interface DeviceCapabilities {
+    hasHands: boolean;      // Hands in 3D space - controllers or hand tracking (VR)
+    handTracking: boolean;  // VR hands tracked by camera, no controllers
+    hasTouch: boolean;      // Touch screen
+    hasPointer: boolean;    // Mouse or trackpad
+    hasGamepad: boolean;    // Gamepad connected
+    screen: ScreenClass;
+}
+
+// A player's device: the coarse bucket plus its capabilities (see getDeviceProfile)
+export interface DeviceProfile extends Readonly<DeviceCapabilities> {
+    readonly type: DeviceType;
+}
+
+// Which hand a VR player used
+export type Handedness = 'left' | 'right';
+
+export interface InteractionContext<TData = any> {
     player: hz.Player;      // The player who triggered the interaction
-    entity?: hz.Entity;     // Optional: the object being interacted with
-    data?: any;            // Optional: any custom data you want to pass
+    hand?: Handedness;      // Optional: the hand that grabbed - set by 'grab' input bindings
+    entity?: hz.Entity;     // Optional: the object being interacted with (also selects entity-scoped handlers)
+    scope?: string;         // Optional: namespace to resolve handlers in (see registerAction options)
+    data?: TData;           // Optional: custom data - typed by the action's definition
+}
+
+// Where a registration applies: a specific entity, or a named namespace
+export type ActionScope = hz.Entity | string;
+
+// Extra options for registerAction()
+export interface RegisterActionOptions {
+    scope?: ActionScope;    // Optional: limit these handlers to one entity or namespace
+    priority?: number;      // Optional: higher runs first (default 0, ties run in registration order)
+    guards?: ActionGuard[]; // Optional: checks that must pass before these handlers run
 }
 
-// Function signature for action handlers
-type ActionHandler = (context: InteractionContext) => void;
+// What guards and middleware know about the trigger being processed
+export interface ActionInfo {
+    actionName: string;
+    deviceType: DeviceType;
+}
+
+/**
+ * A precondition checked before handlers run
+ * Return nothing to allow the trigger, or a reason string to reject it
+ * Ready-made guards (cooldowns, rate limits, teams, distance...) live in guards.ts
+ */
+export type ActionGuard<TData = any> = (context: InteractionContext<TData>, info: ActionInfo) => string | void;
+
+/**
+ * Wraps the handlers for a trigger - call next() to run them
+ * next() resolves once every handler (including async ones) has finished
+ * Return a reason string without calling next() to reject the trigger
+ */
+export type ActionMiddleware<TData = any> = (
+    context: InteractionContext<TData>,
+    info: ActionInfo,
+    next: () => Promise<void>
+) => string | void | Promise<string | void>;
+
+// Why a trigger didn't run - part of trigger()'s result and sent to onRejected() listeners
+export interface ActionRejection {
+    actionName: string;
+    player: hz.Player;
+    deviceType: DeviceType;
+    reason: string;
+    source: 'guard' | 'middleware';
+}
+
+// Returned by registerAction() - disconnect() removes just that registration
+export interface ActionSubscription {
+    disconnect(): void;
+}
+
+// Passed to every handler alongside the context, for controlling the dispatch
+export interface ActionDispatch {
+    stopPropagation(): void; // Skip all lower-priority handlers for this trigger
+}
+
+// Function signature for action handlers - may return a value or a Promise of one
+export type ActionHandler<TData = any, TResult = any> = (
+    context: InteractionContext<TData>,
+    dispatch: ActionDispatch
+) => TResult | Promise<TResult>;
+
+// A handler for players whose device profile matches - checked before the device handlers
+export interface CapabilityHandler<TData = any, TResult = any> {
+    when: Partial<DeviceCapabilities> | ((profile: DeviceProfile) => boolean); // Flags that must all match, or a check
+    handler: ActionHandler<TData, TResult>;
+}
 
 // Object containing handlers for different device types
-type ActionHandlers = {
-    vr?: ActionHandler;      // Handler for VR users (grabbing)
-    mobile?: ActionHandler;  // Handler for mobile users (tapping)
-    desktop?: ActionHandler; // Handler for desktop users (clicking)
+export type ActionHandlers<TData = any, TResult = any> = {
+    vr?: ActionHandler<TData, TResult>;      // Handler for VR users (grabbing)
+    mobile?: ActionHandler<TData, TResult>;  // Handler for mobile users (tapping)
+    desktop?: ActionHandler<TData, TResult>; // Handler for desktop users (clicking)
+    default?: ActionHandler<TData, TResult>; // Shared handler for any device without its own
+    capabilities?: CapabilityHandler<TData, TResult>[]; // Capability-specific handlers - the first match wins
+    categories?: { [category: string]: ActionHandler<TData, TResult> }; // Handlers for NPCs, spectators, etc. - checked first
+};
+
+// Which slot of a handler map ran: a device, the shared default, a capability or a player category handler
+export type HandlerSlot = DeviceType | 'default' | 'capability' | 'category';
+
+// What getPlayerStats() returns
+export interface PlayerStats {
+    total: number;
+    vr: number;         // Human players per device
+    mobile: number;
+    desktop: number;
+    categories: { [category: string]: number }; // Every classified player (server excluded) per category
+}
+
+// How a trigger ended
+export type TriggerStatus =
+    | 'executed'    // Handlers ran without errors
+    | 'rejected'    // A guard or middleware refused - see rejection
+    | 'no-handler'  // Nothing registered, or nothing for this device
+    | 'errored';    // A handler, capability check or middleware threw, or an async handler timed out - see error
+
+// What trigger() resolves with
+export interface TriggerResult<TResult = unknown> {
+    status: TriggerStatus;
+    actionName: string;
+    deviceType: DeviceType;         // The player's detected device
+    handlerSlot?: HandlerSlot;      // Which handler slot ran (differs from deviceType on fallback)
+    value?: TResult;                // Return value of the first (highest-priority) handler
+    values: TResult[];              // Return values of every handler that completed, in run order
+    rejection?: ActionRejection;    // Set when status is 'rejected'
+    error?: unknown;                // Set when status is 'errored' (first error if several)
+}
+
+// Thrown into a TriggerResult when an async handler outlives the action's timeout
+export class ActionTimeoutError extends Error {
+    constructor(public readonly actionName: string, public readonly timeoutSeconds: number) {
+        super(`Action '${actionName}' timed out after ${timeoutSeconds}s`);
+        this.name = 'ActionTimeoutError';
+    }
+}
+
+// Which other devices' handlers each device may borrow, in order ([] = none)
+export type FallbackChains = { [D in DeviceType]?: readonly DeviceType[] };
+
+// Per-action routing rules, declared with defineAction()
+export interface ActionOptions<TData = any> {
+    fallbacks?: FallbackChains;                 // Optional: explicit fallback order per device
+    strict?: boolean;                           // Optional: never run another device's handler
+    guards?: ActionGuard<TData>[];              // Optional: checks every trigger of this action must pass
+    middleware?: ActionMiddleware<TData>[];     // Optional: wrappers around this action's handlers
+    timeout?: number;                           // Optional: seconds an async handler may take before it counts as errored
+    execution?: ExecutionMode;                  // Optional: where handlers run (default 'local')
+}
+
+// Where an action's handlers run
+export type ExecutionMode =
+    | 'local'       // Wherever trigger() is called (the default)
+    | 'server'      // On the server - clients forward the trigger and get the result back
+    | 'broadcast';  // On the server and every client
+
+// Seconds a client waits for the server's answer to a 'server' trigger when the action sets no timeout
+export const DEFAULT_FORWARD_TIMEOUT = 10;
+
+// A server-authoritative result, as every InputMapper instance hears about it (see onReplicated)
+export interface ReplicatedResult<TResult = unknown> {
+    result: TriggerResult<TResult>;
+    player: hz.Player;      // Who triggered the action
+    entity?: hz.Entity;     // The context's entity, if any
+}
+
+/**
+ * A declared action: its name, the type of data its context carries
+ * and the type its handlers return
+ * Create these with defineAction() - never build them by hand
+ */
+export interface ActionDefinition<TData = void, TResult = unknown> {
+    readonly name: string;
+    readonly options: Readonly<ActionOptions>;
+    readonly __data?: TData;     // Type-only marker, never set at runtime
+    readonly __result?: TResult; // Type-only marker, never set at runtime
+}
+
+// Either a declared action or a plain (untyped) action name
+export type ActionKey = ActionDefinition<any, any> | string;
+
+// Rejects handler maps with keys that aren't device types or 'default' (e.g. 'vrr')
+type OnlyDeviceHandlers<H> = H & { [K in Exclude<keyof H, keyof ActionHandlers>]: never };
+
+// Context for trigger(): data becomes required when the action declares a payload
+export type TriggerContext<TData> = undefined extends TData
+    ? InteractionContext<TData>
+    : InteractionContext<TData> & { data: TData };
+
+// Stops TypeScript inferring an action's data type from the context argument
+type FromAction<T> = [T][T extends any ? 0 : never];
+
+// A raw Horizon input that fires an action (see bindAction)
+export type InputBinding =
+    | { input: 'grab'; entity: hz.Entity }            // Grab start on a grabbable entity (VR grab, desktop click)
+    | { input: 'tap'; entity: hz.Entity }             // Tap on a grabbable entity - Horizon reports mobile taps as grabs
+    | { input: 'proximityEnter'; entity: hz.Entity }  // Player walks into a trigger zone
+    | { input: 'proximityExit'; entity: hz.Entity }   // Player walks out of a trigger zone
+    | {                                               // Key or button via PlayerControls - local scripts only
+        input: 'control';
+        action: hz.PlayerInputAction;
+        icon?: hz.ButtonIcon;                         // Optional: on-screen icon (default Interact)
+        on?: 'press' | 'release';                     // Optional: fire on press (default) or release
+    }
+    | {                                               // Interact button (mobile) or key (desktop), only while the
+        input: 'interact';                            // local player is in a trigger zone - local scripts only
+        entity: hz.Entity;                            // The trigger zone
+        action?: hz.PlayerInputAction;                // Optional: the input to use (default: the interactInput property)
+        icon?: hz.ButtonIcon;                         // Optional: on-screen icon (default Interact)
+    };
+
+// Which inputs fire an action, per device - 'any' fires for every device
+export type InputBindings = {
+    vr?: InputBinding[];
+    mobile?: InputBinding[];
+    desktop?: InputBinding[];
+    any?: InputBinding[];
+};
+
+// Extra options for bindAction()
+export interface BindActionOptions<TData = any, TResult = any> {
+    entity?: hz.Entity;     // Optional: context.entity for triggers (default: the bound entity, none for controls)
+    scope?: string;         // Optional: namespace to resolve handlers in
+    data?: (player: hz.Player, source?: hz.Entity) => TData;                   // Builds context.data for each trigger
+    onResult?: (result: TriggerResult<TResult>, player: hz.Player) => void;    // Called with every trigger's outcome
+    focus?: boolean;        // Optional: only fire for the player's focused target (see focus)
+}
+
+// bindAction() options: data becomes required when the action declares a payload
+type BindOptionsArgs<TData, TResult> = undefined extends TData
+    ? [options?: BindActionOptions<TData, TResult>]
+    : [options: BindActionOptions<TData, TResult> & { data: (player: hz.Player, source?: hz.Entity) => TData }];
+
+/**
+ * Declare an action once, with the type of data it carries
+ * 
+ * @param name - Unique name for this action (e.g. 'door_interact')
+ * @param options - Optional: fallback chains, strict mode, guards, middleware and timeout
+ * @returns A definition to pass to registerAction() and trigger()
+ * 
+ * EXAMPLE:
+ * ```
+ * export const ButtonPress = defineAction<{ buttonId: number }>('button_press', {
+ *   fallbacks: { mobile: ['desktop'], vr: [] }   // mobile may use desktop, vr never falls back
+ * });
+ * 
+ * inputMapper.registerAction(ButtonPress, {
+ *   vr: (ctx) => press(ctx.data?.buttonId)   // ctx.data is { buttonId: number }
+ * });
+ * inputMapper.trigger(ButtonPress, { player, data: { buttonId: 3 } });
+ * ```
+ * Misspelled definitions, wrong data shapes and unknown device keys are all compile errors.
+ */
+export function defineAction<TData = void, TResult = unknown>(
+    name: string,
+    options: ActionOptions<TData> = {}
+): ActionDefinition<TData, TResult> {
+    return Object.freeze({ name, options: Object.freeze({ ...options }) });
+}
+
+// One registerAction() call - an action/scope can hold many of these
+interface ActionRegistration {
+    handlers: ActionHandlers;
+    priority: number;
+    order: number; // Registration sequence, breaks priority ties
+    guards: ActionGuard[];
+}
+
+// A handler picked for a trigger, and which slot it came from
+interface SelectedHandler {
+    handler: ActionHandler;
+    slot: HandlerSlot;
+}
+
+// Scope key for handlers registered without an entity or namespace
+const GLOBAL_SCOPE = '*';
+
+// Order bindAction() connects binding lists in
+const BINDING_DEVICES: Array<keyof InputBindings> = ['vr', 'mobile', 'desktop', 'any'];
+
+// Network messages between InputMapper instances (see trigger() and ExecutionMode)
+interface ActionRequest {
+    requestId: string;
+    origin: string;             // instanceId of the sender
+    target: string;             // Entity id of the sending InputMapper - only its other copies answer
+    execution: ExecutionMode;
+    actionName: string;
+    player: hz.Player;
+    hand?: Handedness;
+    entity?: hz.Entity;
+    scope?: string;
+    data?: unknown;
+}
+
+interface ActionResultMessage {
+    requestId: string;
+    player: hz.Player;
+    entity?: hz.Entity;
+    result: TriggerResult<any>;
+    errorMessage?: string;      // Errors don't survive the network, their messages do
+}
+
+const ActionRequestEvent = new hz.NetworkEvent<ActionRequest>('InputMapper.actionRequest');
+const ActionResultEvent = new hz.NetworkEvent<ActionResultMessage>('InputMapper.actionResult');
+
+// Called when a player's effective device changes (re-detection or override)
+export type DeviceChangeListener = (player: hz.Player, from: DeviceType, to: DeviceType) => void;
+
+// What each device type usually means, until a local script reports better
+const DEFAULT_CAPABILITIES: Record<DeviceType, DeviceCapabilities> = {
+    vr: { hasHands: true, handTracking: false, hasTouch: false, hasPointer: false, hasGamepad: false, screen: 'headset' },
+    mobile: { hasHands: false, handTracking: false, hasTouch: true, hasPointer: false, hasGamepad: false, screen: 'phone' },
+    desktop: { hasHands: false, handTracking: false, hasTouch: false, hasPointer: true, hasGamepad: false, screen: 'monitor' }
 };
 
+// True if the profile has every listed flag, or passes the check
+function matchesProfile(profile: DeviceProfile, when: CapabilityHandler['when']): boolean {
+    if (typeof when === 'function') {
+        return when(profile);
+    }
+    return (Object.keys(when) as Array<keyof DeviceCapabilities>).every((key) => profile[key] === when[key]);
+}
+
+// True for Promises and other thenables returned by async handlers
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+    return typeof value === 'object' && value !== null && typeof (value as PromiseLike<unknown>).then === 'function';
+}
+
 export class InputMapper extends hz.Component<typeof InputMapper> {
     
     // ========================================
@@ -73,7 +413,22 @@ export class InputMapper extends hz.Component<typeof InputMapper> {
         fallbackToDesktop: { 
             type: hz.PropTypes.Boolean, 
             default: true,
-            description: "Use desktop handler as fallback if specific device handler not found"
+            description: "Use desktop handler as fallback if specific device handler not found (actions with their own fallback chain ignore this)"
+        },
+        strictMode: {
+            type: hz.PropTypes.Boolean,
+            default: false,
+            description: "Never run another device's handler for any action - report the mismatch instead"
+        },
+        deviceRecheckInterval: {
+            type: hz.PropTypes.Number,
+            default: 0,
+            description: "Seconds between re-checking every player's device, e.g. 5 (0 = only on join and refreshDevice())"
+        },
+        interactInput: {
+            type: hz.PropTypes.String,
+            default: 'RightPrimary',
+            description: "Input behind the Interact button and key that 'interact' bindings show in trigger zones, e.g. 'RightPrimary' or 'RightSecondary'"
         }
     };
 
@@ -81,14 +436,54 @@ export class InputMapper extends hz.Component<typeof InputMapper> {
     // INTERNAL DATA STORAGE
     // ========================================
     
-    // Stores all registered actions and their handlers
-    private actions = new Map<string, ActionHandlers>();
+    // Stores all registered actions, keyed by action name and then by scope
+    // (GLOBAL_SCOPE holds handlers registered without a scope)
+    // Each scope keeps its registrations sorted by priority, highest first
+    private actions = new Map<string, Map<string, ActionRegistration[]>>();
+
+    // Increments with every registration so equal priorities keep their order
+    private registrationCount = 0;
+
+    // Middleware added with use(), run around every action in the order added
+    private middleware: ActionMiddleware[] = [];
+
+    // Listeners told about every rejected trigger (e.g. hint UIs)
+    private rejectionListeners: Array<(rejection: ActionRejection) => void> = [];
+
+    // Routing rules for actions registered through a definition
+    private actionOptions = new Map<string, Readonly<ActionOptions>>();
     
-    // Caches detected device types to avoid repeated detection
-    private deviceCache = new Map<string, DeviceType>();
+    // Caches classified players to avoid repeated detection
+    // (refreshDevice() and deviceRecheckInterval update it)
+    private classifications = new Map<string, PlayerClassification>();
+
+    // Detectors added with addDetector(), run in order before Horizon's device type
+    private detectors: DeviceDetector[] = [];
+
+    // Devices forced with setDeviceOverride() - win over detection until cleared
+    private deviceOverrides = new Map<string, DeviceType>();
+
+    // Listeners told when a player's effective device changes
+    private deviceChangeListeners: DeviceChangeListener[] = [];
+
+    // Capabilities local scripts reported with reportCapabilities(), per player
+    private reportedCapabilities = new Map<string, Partial<DeviceCapabilities>>();
     
-    // Keeps track of how many players are in the world
-    private playerCount = 0;
+    // The players actually in the world - subscribe to players.onJoin()/onLeave()
+    readonly players = new PlayerRegistry();
+
+    // Which registered object each player is aiming at - see bindAction()'s focus option
+    readonly focus = new FocusTracker(this, this.players);
+
+    // Live bindAction() subscriptions, disconnected when the mapper is disposed
+    private bindings = new Set<ActionSubscription>();
+
+    // Triggers forwarded to the server, waiting for its result (by request id)
+    private pendingRequests = new Map<string, (result: TriggerResult<any>) => void>();
+    private requestCount = 0;
+
+    // Listeners told about every server-authoritative result
+    private replicationListeners: Array<(replicated: ReplicatedResult) => void> = [];
 
     // ========================================
     // INITIALIZATION METHODS
@@ -113,6 +508,10 @@ export class InputMapper extends hz.Component<typeof InputMapper> {
             this.onPlayerLeave.bind(this)
         );
 
+        // Listen for triggers and results from InputMapper instances on other machines
+        this.connectNetworkBroadcastEvent(ActionRequestEvent, this.onActionRequest.bind(this));
+        this.connectNetworkBroadcastEvent(ActionResultEvent, this.onActionResult.bind(this));
+
         // Log initialization if debug mode is enabled
         if (this.props.debugMode) {
             console.log('🎮 Universal InputMapper initialized');
@@ -125,6 +524,23 @@ export class InputMapper extends hz.Component<typeof InputMapper> {
      */
     start() {
         console.log('✅ Universal InputMapper ready - supports VR, Mobile, and Desktop interactions');
+
+        // Periodically catch players who switch devices mid-session
+        if (this.props.deviceRecheckInterval > 0) {
+            this.async.setInterval(() => {
+                this.players.getAll().forEach((record) => this.refreshDevice(record.player));
+            }, this.props.deviceRecheckInterval * 1000);
+        }
+    }
+
+    /**
+     * dispose() - Called when the InputMapper is removed from the world
+     * Disconnects every input it was listening to for bindAction()
+     */
+    dispose() {
+        this.bindings.forEach((binding) => binding.disconnect());
+        this.bindings.clear();
+        this.focus.dispose();
     }
 
     // ========================================
@@ -133,35 +549,38 @@ export class InputMapper extends hz.Component<typeof InputMapper> {
     
     /**
      * Called automatically when a player joins the world
-     * Detects their device type and updates player count
+     * Detects their device type and adds them to the player registry
      */
     private onPlayerJoin(player: hz.Player) {
-        this.playerCount++;
-        
+        // The server player isn't someone in the world
+        if (this.isServerPlayer(player)) return;
+
         // Detect what device this player is using
         const deviceType = this.detectDevice(player);
+        const record = this.players.join(player, deviceType);
         
         // Log the join if debug mode is enabled
-        if (this.props.debugMode) {
-            console.log(`🎮 Player ${player.name.get()} joined (${deviceType}) - Total players: ${this.playerCount}`);
+        if (record && this.props.debugMode) {
+            console.log(`🎮 Player ${player.name.get()} joined (${deviceType}) - Total players: ${this.players.count}`);
         }
     }
 
     /**
      * Called automatically when a player leaves the world
-     * Removes their data from cache and updates player count
+     * Removes their data from cache and from the player registry
      */
     private onPlayerLeave(player: hz.Player) {
-        // Decrease player count (but never go below 0)
-        this.playerCount = Math.max(0, this.playerCount - 1);
+        const record = this.players.leave(player);
         
-        // Remove this player's cached device type
+        // Remove this player's cached classification and any override
         const playerId = player.id.toString();
-        this.deviceCache.delete(playerId);
+        this.classifications.delete(playerId);
+        this.deviceOverrides.delete(playerId);
+        this.reportedCapabilities.delete(playerId);
         
         // Log the departure if debug mode is enabled
-        if (this.props.debugMode) {
-            console.log(`👋 Player ${player.name.get()} left - Total players: ${this.playerCount}`);
+        if (record && this.props.debugMode) {
+            console.log(`👋 Player ${player.name.get()} left - Total players: ${this.players.count}`);
         }
     }
 
@@ -176,57 +595,171 @@ export class InputMapper extends hz.Component<typeof InputMapper> {
      * @returns 'vr', 'mobile', or 'desktop'
      * 
      * HOW IT WORKS:
-     * 1. First checks if we already know this player's device (cache)
-     * 2. Makes sure this is a real player (not a server player)
-     * 3. Uses Horizon Worlds API to check device type
-     * 4. Converts to our simple format and caches the result
+     * 1. Uses the player's override, if setDeviceOverride() set one
+     * 2. Otherwise classifies the player (see classifyPlayer) and returns their device
      */
     detectDevice(player: hz.Player): DeviceType {
-        const playerId = player.id.toString();
-        
-        // If we already detected this player's device, return cached result
-        if (this.deviceCache.has(playerId)) {
-            return this.deviceCache.get(playerId)!;
+        // Overrides win over anything we detected
+        const override = this.deviceOverrides.get(player.id.toString());
+        if (override) {
+            return override;
         }
+        return this.classifyPlayer(player).device;
+    }
 
-        try {
-            // Skip server players (they don't have real devices)
-            if (!this.isRealPlayer(player)) {
-                if (this.props.debugMode) {
-                    console.warn('⚠️ Cannot detect device type for server player');
-                }
-                return 'desktop'; // Safe fallback
+    /**
+     * Works out what kind of player this is and which device to route them by
+     * 
+     * @param player - The player to check
+     * @returns Their category ('human', 'server', 'npc' or a custom one) and device
+     * 
+     * HOW IT WORKS:
+     * 1. The server player is recognized by identity and never cached
+     * 2. Otherwise checks if we already classified this player (cache)
+     * 3. Runs the detector chain: detectors from addDetector(), then Horizon's device type
+     * 4. Fills the gaps (category 'human', device 'desktop') and caches the result
+     *    - unless no detector could name a device, so we try again next time
+     */
+    classifyPlayer(player: hz.Player): PlayerClassification {
+        if (this.isServerPlayer(player)) {
+            if (this.props.debugMode) {
+                console.warn('⚠️ Cannot detect device type for server player');
             }
+            return { category: 'server', device: 'desktop' }; // Safe fallback
+        }
 
-            // Get device type from Horizon Worlds API
-            const deviceType = player.deviceType.get();
-            let simpleType: DeviceType = 'desktop'; // Default assumption
-            
-            // Convert Horizon's device types to our simple types
-            if (deviceType === hz.PlayerDeviceType.VR) {
-                simpleType = 'vr';      // Quest headsets, etc.
-            } else if (deviceType === hz.PlayerDeviceType.Mobile) {
-                simpleType = 'mobile';  // Phones, tablets
-            }
-            // Desktop/web users stay as 'desktop'
+        // If we already classified this player, return cached result
+        const cached = this.classifications.get(player.id.toString());
+        if (cached) {
+            return cached;
+        }
 
-            // Cache this result so we don't have to detect again
-            this.deviceCache.set(playerId, simpleType);
-            
-            // Log the detection if debug mode is enabled
-            if (this.props.debugMode) {
-                console.log(`🔍 Detected ${player.name.get()} as: ${simpleType}`);
+        const detected = this.runDetectors(player);
+        if (!detected) {
+            return { category: 'human', device: 'desktop' }; // Safe fallback
+        }
+
+        // Cache this result so we don't have to detect again
+        this.classifications.set(player.id.toString(), detected);
+        
+        // Log the detection if debug mode is enabled
+        if (this.props.debugMode) {
+            const category = detected.category === 'human' ? '' : ` (${detected.category})`;
+            console.log(`🔍 Detected ${player.name.get()} as: ${detected.device}${category}`);
+        }
+
+        return detected;
+    }
+
+    /**
+     * Add a detector to the chain - e.g. to classify NPCs, spectators or test accounts
+     * Detectors run in the order added, before Horizon's own device type
+     * Players already in the world are re-classified
+     * 
+     * @param detector - Returns { category?, device? } for players it recognizes
+     * @returns A subscription - call disconnect() to remove the detector
+     * 
+     * EXAMPLE:
+     * inputMapper.addDetector(categoryDetector('spectator', (p) => spectators.has(p.id)));
+     */
+    addDetector(detector: DeviceDetector): ActionSubscription {
+        this.detectors.push(detector);
+        this.reclassifyPlayers();
+        return {
+            disconnect: () => {
+                this.detectors = this.detectors.filter((entry) => entry !== detector);
+                this.reclassifyPlayers();
             }
+        };
+    }
 
-            return simpleType;
-            
-        } catch (error) {
-            // If anything goes wrong, fall back to desktop
+    /**
+     * Re-reads a player's device, ignoring the cache
+     * Call it when you suspect a switch (e.g. headset taken off) - or set
+     * deviceRecheckInterval to have it run for every player periodically
+     * 
+     * @param player - The player to re-check
+     * @returns The player's device after the check (an override still wins)
+     */
+    refreshDevice(player: hz.Player): DeviceType {
+        if (this.isServerPlayer(player)) {
+            return this.detectDevice(player);
+        }
+
+        const playerId = player.id.toString();
+        const detected = this.runDetectors(player);
+        if (!detected) {
+            return this.detectDevice(player);
+        }
+
+        const previous = this.classifications.get(playerId)?.device;
+        this.classifications.set(playerId, detected);
+
+        // Reported capabilities described the old device
+        if (previous && previous !== detected.device) {
+            this.reportedCapabilities.delete(playerId);
+        }
+
+        // Overridden players keep their effective device, so nothing changed for them
+        if (previous && previous !== detected.device && !this.deviceOverrides.has(playerId)) {
             if (this.props.debugMode) {
-                console.error('❌ Error detecting device type:', error);
+                console.log(`🔄 ${player.name.get()} switched from ${previous} to ${detected.device}`);
             }
-            return 'desktop';
+            this.notifyDeviceChanged(player, previous, detected.device);
         }
+        return this.detectDevice(player);
+    }
+
+    /**
+     * Get a player's device profile: their DeviceType plus capability flags
+     * 
+     * Horizon only tells the server the coarse device type, so the flags start
+     * from what that type usually means (VR: hands and a headset, mobile: touch
+     * and a phone screen, desktop: mouse and a monitor). Anything a local script
+     * reports with reportCapabilities() replaces those guesses.
+     * 
+     * @param player - The player to describe
+     */
+    getDeviceProfile(player: hz.Player): DeviceProfile {
+        const type = this.detectDevice(player);
+        const reported = this.reportedCapabilities.get(player.id.toString());
+        return Object.freeze({ ...DEFAULT_CAPABILITIES[type], ...reported, type });
+    }
+
+    /**
+     * Fill in capabilities the platform only exposes locally
+     * Call it from a script running on the player's device (or send it over from one)
+     * Reported capabilities are dropped when the player's detected device changes
+     * 
+     * @param player - The player whose device was probed
+     * @param capabilities - The flags you know, e.g. { handTracking: true } or { screen: 'tablet' }
+     * 
+     * EXAMPLE:
+     * inputMapper.reportCapabilities(player, { hasGamepad: true });
+     */
+    reportCapabilities(player: hz.Player, capabilities: Partial<DeviceCapabilities>) {
+        const playerId = player.id.toString();
+        this.reportedCapabilities.set(playerId, { ...this.reportedCapabilities.get(playerId), ...capabilities });
+
+        if (this.props.debugMode) {
+            console.log(`🧩 ${player.name.get()} reported capabilities: ${JSON.stringify(capabilities)}`);
+        }
+    }
+
+    /**
+     * Get told when a player's device changes - from re-detection or an override
+     * Useful for refreshing hints or UI that depend on the device
+     * 
+     * @param listener - Called with (player, from, to)
+     * @returns A subscription - call disconnect() to stop listening
+     */
+    onDeviceChanged(listener: DeviceChangeListener): ActionSubscription {
+        this.deviceChangeListeners.push(listener);
+        return {
+            disconnect: () => {
+                this.deviceChangeListeners = this.deviceChangeListeners.filter((entry) => entry !== listener);
+            }
+        };
     }
 
     // ========================================
@@ -237,86 +770,444 @@ export class InputMapper extends hz.Component<typeof InputMapper> {
      * Register an action with handlers for different device types
      * This is how you tell the InputMapper what to do for each device
      * 
-     * @param actionName - Unique name for this action (e.g. 'door_open', 'button_press')
+     * @param action - The action's definition from defineAction()
      * @param handlers - Object with vr, mobile, and/or desktop functions
+     * @param options - Optional: scope and priority for these handlers
+     * @returns A subscription - call disconnect() to remove just this registration
      * 
      * EXAMPLE:
-     * inputMapper.registerAction('door_interact', {
+     * this.subscription = inputMapper.registerAction(DoorInteract, {
      *   vr: (ctx) => openDoorWithGrabAnimation(ctx),
      *   mobile: (ctx) => openDoorWithTapAnimation(ctx),
      *   desktop: (ctx) => openDoorWithClickAnimation(ctx)
-     * });
+     * }, { scope: this.entity });
+     * 
+     * // In dispose():
+     * this.subscription.disconnect();
+     * 
+     * SCOPES:
+     * Prefabs should pass their own entity as the scope. Every door can then
+     * register 'door_interact' without overwriting the others - trigger()
+     * picks the handlers that belong to the entity in the context.
+     * 
+     * MULTIPLE LISTENERS:
+     * Registering the same action and scope again adds another listener.
+     * All matching handlers run, highest priority first; a handler can call
+     * dispatch.stopPropagation() to skip the rest.
      */
-    registerAction(actionName: string, handlers: ActionHandlers) {
-        // Warn if we're overwriting an existing action
-        if (this.actions.has(actionName)) {
-            console.warn(`⚠️ Action '${actionName}' already registered - overwriting`);
+    registerAction<TData, TResult, H extends ActionHandlers<TData, TResult>>(
+        action: ActionDefinition<TData, TResult>,
+        handlers: OnlyDeviceHandlers<H>,
+        options?: RegisterActionOptions
+    ): ActionSubscription;
+    registerAction(action: ActionDefinition<any, any>, handlers: ActionHandlers, options: RegisterActionOptions = {}): ActionSubscription {
+        const actionName = action.name;
+        const scopeKey = this.getScopeKey(options.scope);
+        this.actionOptions.set(actionName, action.options);
+
+        let scopes = this.actions.get(actionName);
+        if (!scopes) {
+            scopes = new Map<string, ActionRegistration[]>();
+            this.actions.set(actionName, scopes);
         }
 
-        // Store the action and its handlers
-        this.actions.set(actionName, handlers);
+        // Add this registration alongside any others, keeping priority order
+        const registration: ActionRegistration = {
+            handlers,
+            priority: options.priority ?? 0,
+            order: this.registrationCount++,
+            guards: options.guards ?? []
+        };
+        const registrations = scopes.get(scopeKey) ?? [];
+        registrations.push(registration);
+        registrations.sort((a, b) => b.priority - a.priority || a.order - b.order);
+        scopes.set(scopeKey, registrations);
         
         // Log registration if debug mode is enabled
         if (this.props.debugMode) {
             const deviceTypes = Object.keys(handlers).join(', ');
-            console.log(`📝 Registered action '${actionName}' for: ${deviceTypes}`);
+            console.log(`📝 Registered action '${actionName}'${this.describeScope(scopeKey)} for: ${deviceTypes} (priority ${registration.priority})`);
         }
+
+        return {
+            disconnect: () => this.removeRegistration(actionName, scopeKey, registration)
+        };
     }
 
     /**
      * Trigger an action - automatically calls the right handler for the player's device
      * This is the magic method that makes everything work!
      * 
-     * @param actionName - The name of the action to trigger
+     * @param action - The action's definition from defineAction()
      * @param context - Information about the interaction (player, entity, data)
      * 
      * HOW IT WORKS:
-     * 1. Looks up the handlers for this action name
+     * 1. Looks up the handlers for this action name, most specific scope first:
+     *    context.scope namespace, then context.entity, then unscoped handlers
      * 2. Detects what device the player is using
-     * 3. Calls the appropriate handler (vr, mobile, or desktop)
-     * 4. Falls back gracefully if no handler exists for that device
+     * 3. Runs the action's guards, then each registration's guards
+     * 4. Calls every matching handler (vr, mobile, or desktop), highest priority first,
+     *    wrapped in use() middleware and then the action's own middleware
+     * 5. Falls back if no handler exists for that device (see selectHandlers)
+     * 
+     * WHERE IT RUNS (the action's execution option):
+     * - 'local': right here
+     * - 'server': here if this is the server; otherwise forwarded to the server,
+     *   and the promise resolves with the server's result
+     * - 'broadcast': here, and on every other InputMapper instance
+     * Context data must survive the network for 'server' and 'broadcast'
+     * (plain values, players, entities, vectors).
+     * 
+     * @returns A promise for the outcome: status, resolved device, handler return values.
+     * Synchronous handlers have already run when trigger() returns; the promise
+     * never rejects - errors are reported through the result.
+     * 
+     * EXAMPLE:
+     * const result = await inputMapper.trigger(OpenChest, { player });
+     * if (result.status === 'rejected') showHint(result.rejection!.reason);
      */
-    trigger(actionName: string, context: InteractionContext) {
-        // First, find the handlers for this action
-        const handlers = this.actions.get(actionName);
-        if (!handlers) {
-            console.warn(`❌ No handlers found for action: ${actionName}`);
-            return;
+    trigger<TData, TResult>(
+        action: ActionDefinition<TData, TResult>,
+        context: TriggerContext<FromAction<TData>>
+    ): Promise<TriggerResult<TResult>>;
+    trigger(action: ActionDefinition<any, any>, context: InteractionContext): Promise<TriggerResult<any>> {
+        const actionName = action.name;
+        // Definitions carry their options, even to instances that never registered the action
+        const options = action.options;
+        const execution = options.execution ?? 'local';
+
+        if (execution === 'server' && !this.isServer()) {
+            return this.forwardToServer(actionName, context, options.timeout ?? DEFAULT_FORWARD_TIMEOUT);
         }
+        if (execution === 'broadcast') {
+            this.sendActionRequest(actionName, context, 'broadcast');
+        }
+
+        const result = this.runTrigger(actionName, context);
+        if (execution === 'server') {
+            result
+                .then((outcome) => this.replicateResult(this.nextRequestId(), context, outcome))
+                .catch((error) => console.error(`❌ Could not replicate the result of '${actionName}':`, error));
+        }
+        return result;
+    }
 
+    /**
+     * The trigger pipeline behind trigger()
+     * Written so that everything up to the first async handler runs synchronously
+     */
+    private async runTrigger(actionName: string, context: InteractionContext): Promise<TriggerResult<any>> {
         // Detect what device this player is using
         const deviceType = this.detectDevice(context.player);
-        
-        // Try to get the handler for their specific device
-        let handler = handlers[deviceType];
-        
-        // If no specific handler exists, try fallback to desktop
-        if (!handler && this.props.fallbackToDesktop) {
-            handler = handlers.desktop;
+        const info: ActionInfo = { actionName, deviceType };
+        const options = this.actionOptions.get(actionName) ?? {};
+
+        // First, find the registrations for this action
+        const registrations = this.resolveRegistrations(actionName, context);
+        if (!registrations) {
+            console.warn(`❌ No handlers found for action: ${actionName}`);
+            return { status: 'no-handler', actionName, deviceType, values: [] };
         }
-        
-        // If still no handler, use any available handler
-        if (!handler) {
-            handler = Object.values(handlers)[0];
+
+        // Action-wide guards gate everything
+        const actionReason = this.runGuards(options.guards ?? [], context, info);
+        if (actionReason !== undefined) {
+            return this.reject(context, info, actionReason, 'guard');
+        }
+
+        // Registration guards gate only their own handlers
+        let firstReason: string | undefined;
+        const allowed = registrations.filter((registration) => {
+            const reason = this.runGuards(registration.guards, context, info);
+            firstReason = firstReason ?? reason;
+            return reason === undefined;
+        });
+        if (allowed.length === 0 && firstReason !== undefined) {
+            return this.reject(context, info, firstReason, 'guard');
         }
         
-        // Execute the handler if we found one
-        if (handler) {
+        // Pick the handlers for their device, following the action's fallback rules
+        // (capability checks are user code and may throw)
+        let selected: SelectedHandler[];
+        try {
+            const category = this.classifyPlayer(context.player).category;
+            selected = this.selectHandlers(actionName, allowed, this.getDeviceProfile(context.player), category);
+        } catch (error) {
+            console.error(`❌ Handler selection error in '${actionName}':`, error);
+            return { status: 'errored', actionName, deviceType, values: [], error };
+        }
+        if (selected.length === 0) {
+            console.warn(`❌ No compatible handler found for '${actionName}' on ${deviceType}`);
+            return { status: 'no-handler', actionName, deviceType, values: [] };
+        }
+
+        // Run them through the middleware chain
+        const result: TriggerResult<any> = {
+            status: 'executed',
+            actionName,
+            deviceType,
+            handlerSlot: selected[0].slot,
+            values: []
+        };
+        const middleware = [...this.middleware, ...(options.middleware ?? [])];
+        try {
+            const middlewareReason = await this.runMiddleware(middleware, context, info, () =>
+                this.runHandlers(selected, context, info, options.timeout, result)
+            );
+            if (middlewareReason !== undefined) {
+                return this.reject(context, info, middlewareReason, 'middleware');
+            }
+        } catch (error) {
+            console.error(`❌ Middleware error in '${actionName}':`, error);
+            result.status = 'errored';
+            result.error = result.error ?? error;
+        }
+
+        result.value = result.values[0];
+        return result;
+    }
+
+    /**
+     * Get told about every server-authoritative result, on every instance
+     * This is how clients learn the state a 'server' action produced -
+     * return that state from the handler and read it from result.value
+     * 
+     * @param listener - Called with the result, the player and the entity
+     * @returns A subscription - call disconnect() to stop listening
+     */
+    onReplicated(listener: (replicated: ReplicatedResult) => void): ActionSubscription {
+        this.replicationListeners.push(listener);
+        return {
+            disconnect: () => {
+                this.replicationListeners = this.replicationListeners.filter((entry) => entry !== listener);
+            }
+        };
+    }
+
+    /**
+     * Add middleware that wraps the handlers of every action
+     * Runs before any middleware declared on the action itself
+     * 
+     * @param middleware - Function given (context, info, next) - call next() to continue
+     * @returns A subscription - call disconnect() to remove the middleware
+     * 
+     * EXAMPLE:
+     * inputMapper.use(async (ctx, info, next) => {
+     *   const start = Date.now();
+     *   await next();
+     *   console.log(`${info.actionName} took ${Date.now() - start}ms`);
+     * });
+     */
+    use(middleware: ActionMiddleware): ActionSubscription {
+        this.middleware.push(middleware);
+        return {
+            disconnect: () => {
+                this.middleware = this.middleware.filter((entry) => entry !== middleware);
+            }
+        };
+    }
+
+    /**
+     * Get told whenever a guard or middleware rejects a trigger
+     * Useful for hint UIs ("Door is on cooldown", "Red team only")
+     * 
+     * @param listener - Called with the rejection details
+     * @returns A subscription - call disconnect() to stop listening
+     */
+    onRejected(listener: (rejection: ActionRejection) => void): ActionSubscription {
+        this.rejectionListeners.push(listener);
+        return {
+            disconnect: () => {
+                this.rejectionListeners = this.rejectionListeners.filter((entry) => entry !== listener);
+            }
+        };
+    }
+
+    // ========================================
+    // INPUT BINDINGS
+    // ========================================
+
+    /**
+     * Fire an action straight from raw Horizon inputs - no listeners in your script
+     * The mapper connects the inputs, checks the player's device and calls trigger()
+     * 
+     * @param action - The action's definition
+     * @param bindings - Inputs per device ('any' fires for every device)
+     * @param options - Context entity/scope, a data builder (required for actions with data) and a result callback
+     * @returns A subscription - call disconnect() to stop listening to these inputs
+     * 
+     * EXAMPLE:
+     * inputMapper.bindAction(OpenChest, {
+     *   vr: [{ input: 'grab', entity: chestHandle }],
+     *   mobile: [{ input: 'tap', entity: chestHandle }],
+     *   desktop: [{ input: 'control', action: hz.PlayerInputAction.RightPrimary }],
+     * }, { entity: chest });
+     * 
+     * 'control' and 'interact' bindings read the local player's device, so they
+     * only work when this InputMapper runs locally (owned by that player).
+     * The same input listed for 'any' and a device fires twice for that device.
+     * With focus: true, overlapping objects bound to one input only fire for the
+     * one the player aims at (see focus.ts).
+     */
+    bindAction<TData, TResult>(
+        action: ActionDefinition<TData, TResult>,
+        bindings: InputBindings,
+        ...[options = {}]: BindOptionsArgs<FromAction<TData>, TResult>
+    ): ActionSubscription {
+        const actionName = action.name;
+        const connections: hz.EventSubscription[] = [];
+
+        for (const device of BINDING_DEVICES) {
+            for (const binding of bindings[device] ?? []) {
+                connections.push(this.connectBinding(binding, device, (player, hand) =>
+                    this.fireBinding(action, device, binding, player, options, hand)
+                ));
+            }
+        }
+
+        if (this.props.debugMode) {
+            console.log(`🔗 Bound '${actionName}' to ${connections.length} input(s)`);
+        }
+
+        const subscription: ActionSubscription = {
+            disconnect: () => {
+                connections.forEach((connection) => connection.disconnect());
+                connections.length = 0;
+                this.bindings.delete(subscription);
+            }
+        };
+        this.bindings.add(subscription);
+        return subscription;
+    }
+
+    // ========================================
+    // NETWORKED DISPATCH
+    // ========================================
+
+    /**
+     * Sends a 'server' trigger to the server and waits for its result
+     * Settles as errored with an ActionTimeoutError if no answer comes in time
+     */
+    private forwardToServer(actionName: string, context: InteractionContext, timeoutSeconds: number): Promise<TriggerResult<any>> {
+        return new Promise((resolve) => {
+            const requestId = this.sendActionRequest(actionName, context, 'server');
+            const timer = this.async.setTimeout(() => {
+                if (!this.pendingRequests.delete(requestId)) return;
+                resolve({
+                    status: 'errored',
+                    actionName,
+                    deviceType: this.detectDevice(context.player),
+                    values: [],
+                    error: new ActionTimeoutError(actionName, timeoutSeconds)
+                });
+            }, timeoutSeconds * 1000);
+            this.pendingRequests.set(requestId, (result) => {
+                this.async.clearTimeout(timer);
+                resolve(result);
+            });
+
+            if (this.props.debugMode) {
+                console.log(`📡 Forwarded '${actionName}' to the server (${requestId})`);
+            }
+        });
+    }
+
+    private sendActionRequest(actionName: string, context: InteractionContext, execution: ExecutionMode): string {
+        const requestId = this.nextRequestId();
+        this.sendNetworkBroadcastEvent(ActionRequestEvent, {
+            requestId,
+            origin: this.instanceId(),
+            target: `${this.entity.id}`,
+            execution,
+            actionName,
+            player: context.player,
+            hand: context.hand,
+            entity: context.entity,
+            scope: context.scope,
+            data: context.data
+        });
+        return requestId;
+    }
+
+    /**
+     * A trigger from another copy of this InputMapper: the server runs
+     * forwarded 'server' triggers, everyone else runs 'broadcast' ones
+     * Other InputMappers in the world ignore it - the event reaches them too
+     */
+    private onActionRequest(request: ActionRequest) {
+        if (request.origin === this.instanceId() || request.target !== `${this.entity.id}`) return;
+
+        const context: InteractionContext = { player: request.player };
+        if (request.hand) context.hand = request.hand;
+        if (request.entity) context.entity = request.entity;
+        if (request.scope) context.scope = request.scope;
+        if (request.data !== undefined) context.data = request.data;
+
+        if (request.execution === 'server') {
+            if (!this.isServer()) return;
+            this.runTrigger(request.actionName, context)
+                .then((result) => this.replicateResult(request.requestId, context, result))
+                .catch((error) => console.error(`❌ Could not replicate the result of '${request.actionName}':`, error));
+        } else if (request.execution === 'broadcast' && this.actions.has(request.actionName)) {
+            this.runTrigger(request.actionName, context);
+        }
+    }
+
+    /**
+     * Sends a server-authoritative result to every instance (this one included)
+     */
+    private replicateResult(requestId: string, context: InteractionContext, result: TriggerResult<any>) {
+        const message: ActionResultMessage = { requestId, player: context.player, entity: context.entity, result };
+        if (result.error !== undefined) {
+            message.result = { ...result, error: undefined };
+            message.errorMessage = result.error instanceof Error ? result.error.message : String(result.error);
+        }
+        this.sendNetworkBroadcastEvent(ActionResultEvent, message);
+    }
+
+    /**
+     * A server result: settles our forwarded trigger if it was ours, and tells onReplicated() listeners
+     */
+    private onActionResult(message: ActionResultMessage) {
+        const result: TriggerResult<any> = message.errorMessage === undefined
+            ? message.result
+            : { ...message.result, error: new Error(message.errorMessage) };
+
+        const resolve = this.pendingRequests.get(message.requestId);
+        if (resolve) {
+            this.pendingRequests.delete(message.requestId);
+            // The server told its own listeners - tell ours, for local hints
+            if (result.rejection) {
+                this.notifyRejected(result.rejection);
+            }
+            resolve(result);
+        }
+
+        const replicated: ReplicatedResult = { result, player: message.player };
+        if (message.entity) replicated.entity = message.entity;
+        for (const listener of this.replicationListeners) {
             try {
-                handler(context);
-                
-                // Log successful execution if debug mode is enabled
-                if (this.props.debugMode) {
-                    console.log(`✅ Executed '${actionName}' for ${deviceType} user: ${context.player.name.get()}`);
-                }
+                listener(replicated);
             } catch (error) {
-                console.error(`❌ Error executing '${actionName}':`, error);
+                console.error('❌ Error in replication listener:', error);
             }
-        } else {
-            console.warn(`❌ No compatible handler found for '${actionName}' on ${deviceType}`);
         }
     }
 
+    private nextRequestId(): string {
+        return `${this.instanceId()}#${++this.requestCount}`;
+    }
+
+    // Unique per script instance: one InputMapper entity can run on the server and on clients
+    private instanceId(): string {
+        return `${this.entity.id}@${this.world.getLocalPlayer().id}`;
+    }
+
+    // True when this instance runs on the server rather than a player's device
+    private isServer(): boolean {
+        return this.isServerPlayer(this.world.getLocalPlayer());
+    }
+
     // ========================================
     // UTILITY METHODS
     // ========================================
@@ -339,30 +1230,62 @@ export class InputMapper extends hz.Component<typeof InputMapper> {
             return;
         }
 
-        // Force the device type for this player
-        const playerId = player.id.toString();
-        this.deviceCache.set(playerId, deviceType);
+        // Force the device type for this player (detection keeps running underneath)
+        const previous = this.detectDevice(player);
+        this.deviceOverrides.set(player.id.toString(), deviceType);
         
         // Log the override if debug mode is enabled
         if (this.props.debugMode) {
             console.log(`🔧 Override: Set ${player.name.get()} to ${deviceType} for testing`);
         }
+
+        if (previous !== deviceType) {
+            this.notifyDeviceChanged(player, previous, deviceType);
+        }
+    }
+
+    /**
+     * Remove a player's device override, going back to their detected device
+     * 
+     * @param player - The player whose override to remove
+     */
+    clearDeviceOverride(player: hz.Player) {
+        const playerId = player.id.toString();
+        const override = this.deviceOverrides.get(playerId);
+        if (!override) return;
+
+        this.deviceOverrides.delete(playerId);
+        const detected = this.detectDevice(player);
+
+        if (this.props.debugMode) {
+            console.log(`🔧 Override cleared: ${player.name.get()} is ${detected} again`);
+        }
+
+        if (override !== detected) {
+            this.notifyDeviceChanged(player, override, detected);
+        }
     }
 
     /**
      * Get statistics about what devices players are using
      * Useful for analytics or debugging
      * 
-     * @returns Object with counts of each device type
+     * @returns Object with counts of each device type (humans only) and of each player category
+     * Only players in the registry count - detecting someone doesn't add them
      * 
      * EXAMPLE OUTPUT:
-     * { total: 5, vr: 2, mobile: 2, desktop: 1 }
+     * { total: 6, vr: 2, mobile: 2, desktop: 1, categories: { human: 5, npc: 1 } }
      */
-    getPlayerStats(): { total: number, vr: number, mobile: number, desktop: number } {
-        const stats = { total: this.playerCount, vr: 0, mobile: 0, desktop: 0 };
+    getPlayerStats(): PlayerStats {
+        const stats: PlayerStats = { total: this.players.count, vr: 0, mobile: 0, desktop: 0, categories: {} };
         
-        // Count how many players are using each device type
-        this.deviceCache.forEach((device) => {
+        // Count how many players are using each device type (overrides included)
+        this.players.getAll().forEach(({ player }) => {
+            const { category } = this.classifyPlayer(player);
+            stats.categories[category] = (stats.categories[category] ?? 0) + 1;
+            if (category !== 'human') return;
+
+            const device = this.detectDevice(player);
             if (device === 'vr') {
                 stats.vr++;
             } else if (device === 'mobile') {
@@ -385,12 +1308,40 @@ export class InputMapper extends hz.Component<typeof InputMapper> {
         return Array.from(this.actions.keys());
     }
 
+    /**
+     * Remove every registration for an action in one scope
+     * Other scopes (e.g. other doors) keep their handlers
+     * To remove a single registration, disconnect() its subscription instead
+     * 
+     * @param action - The action to remove (definition or name)
+     * @param scope - The entity or namespace it was registered with (omit for unscoped)
+     * @returns true if something was removed
+     */
+    unregisterAction(action: ActionKey, scope?: ActionScope): boolean {
+        const actionName = this.getActionName(action);
+        const scopes = this.actions.get(actionName);
+        if (!scopes) return false;
+
+        const scopeKey = this.getScopeKey(scope);
+        const removed = scopes.delete(scopeKey);
+        if (scopes.size === 0) {
+            this.actions.delete(actionName);
+            this.actionOptions.delete(actionName);
+        }
+
+        if (removed && this.props.debugMode) {
+            console.log(`🗑️ Unregistered action '${actionName}'${this.describeScope(scopeKey)}`);
+        }
+        return removed;
+    }
+
     /**
      * Clear all registered actions
      * Useful for cleanup or resetting the InputMapper
      */
     clearAllActions() {
         this.actions.clear();
+        this.actionOptions.clear();
         if (this.props.debugMode) {
             console.log('🧹 Cleared all registered actions');
         }
@@ -401,20 +1352,484 @@ export class InputMapper extends hz.Component<typeof InputMapper> {
     // ========================================
     
     /**
-     * Check if a player is a real human player (not a server player)
+     * Gets the registry name for a declared action or a plain action name
+     */
+    private getActionName(action: ActionKey): string {
+        return typeof action === 'string' ? action : action.name;
+    }
+
+    /**
+     * Finds the registrations trigger() should use for this context
+     * Order: namespace scope, then entity scope, then unscoped
+     */
+    private resolveRegistrations(actionName: string, context: InteractionContext): ActionRegistration[] | undefined {
+        const scopes = this.actions.get(actionName);
+        if (!scopes) return undefined;
+
+        if (context.scope !== undefined && scopes.has(this.getScopeKey(context.scope))) {
+            return scopes.get(this.getScopeKey(context.scope));
+        }
+        if (context.entity && scopes.has(this.getScopeKey(context.entity))) {
+            return scopes.get(this.getScopeKey(context.entity));
+        }
+        return scopes.get(GLOBAL_SCOPE);
+    }
+
+    /**
+     * Picks which handlers run for a device, in priority order
+     * 
+     * ORDER:
+     * 1. Each registration's own handler: its handler for the player's category
+     *    (NPCs, spectators...), else its first capability handler matching the
+     *    player's profile, else its handler for the device, else its 'default' handler
+     * 2. If none of them has one, strict actions stop here - the mismatch is reported
+     * 3. The action's fallback chain for this device, in order - the first device
+     *    any registration handles wins (no chain declared: desktop, if fallbackToDesktop is on)
+     */
+    private selectHandlers(
+        actionName: string,
+        registrations: ActionRegistration[],
+        profile: DeviceProfile,
+        category: PlayerCategory
+    ): SelectedHandler[] {
+        const deviceType = profile.type;
+        const ownHandlers = this.collectHandlers(registrations, (handlers) => {
+            const categoryHandler = category === 'human' ? undefined : handlers.categories?.[category];
+            if (categoryHandler) return { handler: categoryHandler, slot: 'category' };
+
+            const capability = handlers.capabilities?.find((entry) => matchesProfile(profile, entry.when));
+            if (capability) return { handler: capability.handler, slot: 'capability' };
+            return this.pickSlot(handlers, deviceType) ?? this.pickSlot(handlers, 'default');
+        });
+        if (ownHandlers.length > 0) {
+            return ownHandlers;
+        }
+
+        const options = this.actionOptions.get(actionName) ?? {};
+        if (options.strict || this.props.strictMode) {
+            console.warn(`⛔ Strict action '${actionName}' has no ${deviceType} handler - refusing to run another device's handler`);
+            return [];
+        }
+
+        const chain = options.fallbacks?.[deviceType] ?? (this.props.fallbackToDesktop ? ['desktop'] : []);
+        for (const fallbackDevice of chain) {
+            const fallbackHandlers = this.collectHandlers(registrations, (handlers) =>
+                this.pickSlot(handlers, fallbackDevice)
+            );
+            if (fallbackHandlers.length > 0) {
+                if (this.props.debugMode) {
+                    console.log(`↪️ '${actionName}': ${deviceType} user falling back to ${fallbackDevice} handler`);
+                }
+                return fallbackHandlers;
+            }
+        }
+
+        return [];
+    }
+
+    /**
+     * Picks one handler (or none) from each registration, keeping their order
+     */
+    private collectHandlers(
+        registrations: ActionRegistration[],
+        pick: (handlers: ActionHandlers) => SelectedHandler | undefined
+    ): SelectedHandler[] {
+        const picked: SelectedHandler[] = [];
+        for (const registration of registrations) {
+            const selected = pick(registration.handlers);
+            if (selected) picked.push(selected);
+        }
+        return picked;
+    }
+
+    /**
+     * The handler in one device (or default) slot, if the registration has it
+     */
+    private pickSlot(handlers: ActionHandlers, slot: DeviceType | 'default'): SelectedHandler | undefined {
+        const handler = handlers[slot];
+        return handler ? { handler, slot } : undefined;
+    }
+
+    /**
+     * Runs the detector chain, without touching the cache
+     * @returns undefined when no detector could name a device
+     */
+    private runDetectors(player: hz.Player): PlayerClassification | undefined {
+        let category: PlayerCategory | undefined;
+        let device: DeviceType | undefined;
+
+        for (const detector of [...this.detectors, horizonDeviceDetector]) {
+            try {
+                const found = detector(player);
+                category = category ?? found?.category;
+                device = device ?? found?.device;
+            } catch (error) {
+                // One broken detector shouldn't stop the chain
+                if (this.props.debugMode) {
+                    console.error('❌ Error detecting device type:', error);
+                }
+            }
+            if (category && device) break;
+        }
+
+        return device ? { category: category ?? 'human', device } : undefined;
+    }
+
+    /**
+     * Re-runs detection for everyone in the world after the chain changed
+     */
+    private reclassifyPlayers() {
+        this.players.getAll().forEach((record) => this.refreshDevice(record.player));
+    }
+
+    /**
+     * Tells onDeviceChanged() listeners, keeping one bad listener from blocking the rest
+     */
+    private notifyDeviceChanged(player: hz.Player, from: DeviceType, to: DeviceType) {
+        // Keep the registry's device history in step
+        this.players.recordDevice(player, to);
+        for (const listener of this.deviceChangeListeners) {
+            try {
+                listener(player, from, to);
+            } catch (error) {
+                console.error('❌ Error in device change listener:', error);
+            }
+        }
+    }
+
+    /**
+     * Connects the Horizon listener behind one binding
+     */
+    private connectBinding(
+        binding: InputBinding,
+        device: keyof InputBindings,
+        fire: (player: hz.Player, hand?: Handedness) => void
+    ): hz.EventSubscription {
+        switch (binding.input) {
+            case 'grab':
+            case 'tap':
+                return this.connectCodeBlockEvent(
+                    binding.entity,
+                    hz.CodeBlockEvents.OnGrabStart,
+                    (isRightHand: boolean, player: hz.Player) => fire(player, isRightHand ? 'right' : 'left')
+                );
+            case 'proximityEnter':
+                return this.connectCodeBlockEvent(binding.entity, hz.CodeBlockEvents.OnPlayerEnterTrigger, fire);
+            case 'proximityExit':
+                return this.connectCodeBlockEvent(binding.entity, hz.CodeBlockEvents.OnPlayerExitTrigger, fire);
+            case 'control': {
+                const input = hz.PlayerControls.connectLocalInput(binding.action, binding.icon ?? hz.ButtonIcon.Interact, this);
+                const firesOnPress = (binding.on ?? 'press') === 'press';
+                input.registerCallback((action, pressed) => {
+                    if (pressed === firesOnPress) fire(this.world.getLocalPlayer());
+                });
+                return input;
+            }
+            case 'interact':
+                return this.connectZoneInput(binding, device, fire);
+        }
+    }
+
+    /**
+     * Shows the Interact button (mobile) or binds the key (desktop) while the
+     * local player stands in the binding's trigger zone, and takes it away
+     * when they walk out
+     */
+    private connectZoneInput(
+        binding: Extract<InputBinding, { input: 'interact' }>,
+        device: keyof InputBindings,
+        fire: (player: hz.Player) => void
+    ): hz.EventSubscription {
+        let input: hz.PlayerInput | null = null;
+        const release = () => {
+            input?.disconnect();
+            input = null;
+        };
+
+        // Only the player this script runs for gets a button - and only on the device it's bound for
+        const isLocalPlayer = (player: hz.Player) => player.id === this.world.getLocalPlayer().id;
+        const events = [
+            this.connectCodeBlockEvent(binding.entity, hz.CodeBlockEvents.OnPlayerEnterTrigger, (player: hz.Player) => {
+                if (input || !isLocalPlayer(player)) return;
+                if (device !== 'any' && this.detectDevice(player) !== device) return;
+
+                input = hz.PlayerControls.connectLocalInput(
+                    binding.action ?? this.getInteractInput(),
+                    binding.icon ?? hz.ButtonIcon.Interact,
+                    this
+                );
+                input.registerCallback((action, pressed) => {
+                    if (pressed) fire(player);
+                });
+            }),
+            this.connectCodeBlockEvent(binding.entity, hz.CodeBlockEvents.OnPlayerExitTrigger, (player: hz.Player) => {
+                if (isLocalPlayer(player)) release();
+            }),
+        ];
+
+        return {
+            disconnect: () => {
+                events.forEach((event) => event.disconnect());
+                release();
+            }
+        };
+    }
+
+    /**
+     * The input named by the interactInput property
+     */
+    private getInteractInput(): hz.PlayerInputAction {
+        const input = hz.PlayerInputAction[this.props.interactInput as keyof typeof hz.PlayerInputAction];
+        if (input === undefined) {
+            console.warn(`⚠️ InputMapper: Unknown interactInput '${this.props.interactInput}' - using RightPrimary`);
+            return hz.PlayerInputAction.RightPrimary;
+        }
+        return input;
+    }
+
+    /**
+     * Turns a raw input into a trigger, if it came from the device it was bound for
+     */
+    private fireBinding(
+        action: ActionDefinition<any, any>,
+        device: keyof InputBindings,
+        binding: InputBinding,
+        player: hz.Player,
+        options: BindActionOptions,
+        hand?: Handedness
+    ) {
+        // Local inputs seen on the server have no player device to route by
+        if (this.isServerPlayer(player)) return;
+        if (device !== 'any' && this.detectDevice(player) !== device) return;
+
+        const source = 'entity' in binding ? binding.entity : undefined;
+        const context: InteractionContext = { player };
+        let entity = options.entity ?? source;
+
+        // Focused bindings fire for one target: their own if it's focused,
+        // or whatever is focused when they have none (a bare control)
+        if (options.focus) {
+            const focused = this.focus.getFocus(player);
+            if (!focused || (entity && entity !== focused)) return;
+            entity = focused;
+        }
+
+        if (entity) context.entity = entity;
+        if (options.scope) context.scope = options.scope;
+        if (options.data) context.data = options.data(player, source);
+        if (hand) context.hand = hand;
+
+        // Through trigger(), so the action's execution mode applies
+        this.trigger(action, context)
+            .then((result) => options.onResult?.(result, player))
+            .catch((error) => console.error(`❌ onResult error for '${action.name}':`, error));
+    }
+
+    /**
+     * Runs guards in order and returns the first rejection reason, if any
+     * A guard that throws counts as a rejection
+     */
+    private runGuards(guards: ActionGuard[], context: InteractionContext, info: ActionInfo): string | undefined {
+        for (const guard of guards) {
+            try {
+                const reason = guard(context, info);
+                if (typeof reason === 'string') return reason;
+            } catch (error) {
+                console.error(`❌ Guard error in '${info.actionName}':`, error);
+                return localization.translate(context.player, 'input.guardFailed');
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Runs the middleware chain around `run`
+     * @returns A rejection reason if a middleware refused (or forgot) to call next()
+     */
+    private async runMiddleware(
+        middleware: ActionMiddleware[],
+        context: InteractionContext,
+        info: ActionInfo,
+        run: () => Promise<void>
+    ): Promise<string | undefined> {
+        const step = async (index: number): Promise<string | undefined> => {
+            if (index === middleware.length) {
+                await run();
+                return undefined;
+            }
+
+            let downstream: Promise<string | undefined> | undefined;
+            const next = async () => {
+                // next() only runs the rest of the chain once
+                downstream = downstream ?? step(index + 1);
+                await downstream;
+            };
+
+            const result = await middleware[index](context, info, next);
+            if (!downstream) {
+                return typeof result === 'string' ? result : localization.translate(context.player, 'input.blockedByMiddleware');
+            }
+            return downstream;
+        };
+
+        return step(0);
+    }
+
+    /**
+     * Runs handlers in priority order until one stops propagation
+     * Async handlers are awaited (with the action's timeout) before the next one runs;
+     * synchronous ones run back to back. Outcomes are written into `result`.
+     */
+    private async runHandlers(
+        selected: SelectedHandler[],
+        context: InteractionContext,
+        info: ActionInfo,
+        timeoutSeconds: number | undefined,
+        result: TriggerResult<any>
+    ): Promise<void> {
+        let stopped = false;
+        const dispatch: ActionDispatch = {
+            stopPropagation: () => { stopped = true; }
+        };
+        for (const { handler } of selected) {
+            try {
+                let value = handler(context, dispatch);
+                if (isPromiseLike(value)) {
+                    value = await this.withTimeout(value, timeoutSeconds, info.actionName);
+                }
+                result.values.push(value);
+            } catch (error) {
+                // One failing listener shouldn't block the others
+                console.error(`❌ Error executing '${info.actionName}':`, error);
+                result.status = 'errored';
+                result.error = result.error ?? error;
+            }
+            if (stopped) break;
+        }
+
+        // Log successful execution if debug mode is enabled
+        const executed = result.values.length;
+        if (executed > 0 && this.props.debugMode) {
+            console.log(`✅ Executed '${info.actionName}' (${executed} handler${executed === 1 ? '' : 's'}) for ${info.deviceType} user: ${context.player.name.get()}`);
+        }
+    }
+
+    /**
+     * Waits for an async handler, giving up after the action's timeout
+     */
+    private withTimeout<T>(promise: PromiseLike<T>, timeoutSeconds: number | undefined, actionName: string): Promise<T> {
+        if (timeoutSeconds === undefined) {
+            return Promise.resolve(promise);
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            const timer = this.async.setTimeout(() => {
+                reject(new ActionTimeoutError(actionName, timeoutSeconds));
+            }, timeoutSeconds * 1000);
+
+            promise.then(
+                (value) => {
+                    this.async.clearTimeout(timer);
+                    resolve(value);
+                },
+                (error) => {
+                    this.async.clearTimeout(timer);
+                    reject(error);
+                }
+            );
+        });
+    }
+
+    /**
+     * Builds a rejection, tells onRejected() listeners and returns it as a result
+     */
+    private reject(
+        context: InteractionContext,
+        info: ActionInfo,
+        reason: string,
+        source: ActionRejection['source']
+    ): TriggerResult<any> {
+        const rejection: ActionRejection = {
+            actionName: info.actionName,
+            player: context.player,
+            deviceType: info.deviceType,
+            reason,
+            source
+        };
+
+        if (this.props.debugMode) {
+            console.log(`🚫 '${info.actionName}' rejected for ${context.player.name.get()} by ${source}: ${reason}`);
+        }
+
+        this.notifyRejected(rejection);
+        return { status: 'rejected', actionName: info.actionName, deviceType: info.deviceType, values: [], rejection };
+    }
+
+    /**
+     * Tells onRejected() listeners, keeping one bad listener from blocking the rest
+     */
+    private notifyRejected(rejection: ActionRejection) {
+        for (const listener of this.rejectionListeners) {
+            try {
+                listener(rejection);
+            } catch (error) {
+                console.error('❌ Error in rejection listener:', error);
+            }
+        }
+    }
+
+    /**
+     * Removes a single registration - what ActionSubscription.disconnect() calls
+     * Safe to call more than once
+     */
+    private removeRegistration(actionName: string, scopeKey: string, registration: ActionRegistration) {
+        const scopes = this.actions.get(actionName);
+        const registrations = scopes?.get(scopeKey);
+        if (!scopes || !registrations) return;
+
+        const index = registrations.indexOf(registration);
+        if (index < 0) return;
+
+        registrations.splice(index, 1);
+        if (registrations.length === 0) {
+            scopes.delete(scopeKey);
+        }
+        if (scopes.size === 0) {
+            this.actions.delete(actionName);
+            this.actionOptions.delete(actionName);
+        }
+
+        if (this.props.debugMode) {
+            console.log(`🗑️ Disconnected a '${actionName}' handler${this.describeScope(scopeKey)}`);
+        }
+    }
+
+    /**
+     * Turns a scope into the key used in the actions map
+     * Entities and namespaces get different prefixes so they can never collide
+     */
+    private getScopeKey(scope?: ActionScope): string {
+        if (scope === undefined) return GLOBAL_SCOPE;
+        if (typeof scope === 'string') return `ns:${scope}`;
+        return `entity:${scope.id.toString()}`;
+    }
+
+    /**
+     * Readable scope suffix for log messages
+     */
+    private describeScope(scopeKey: string): string {
+        return scopeKey === GLOBAL_SCOPE ? '' : ` (${scopeKey})`;
+    }
+
+    /**
+     * Check if a player is the server player
      * Server players don't have device types and would cause errors
      * 
      * @param player - The player to check
-     * @returns true if this is a real human player, false if it's a server player
+     * @returns true for the world's server player, by identity rather than by name
      */
-    private isRealPlayer(player: hz.Player): boolean {
-        try {
-            const playerName = player.name.get();
-            return playerName != null && playerName.length > 0 && playerName !== 'Server';
-        } catch (error) {
-            // If we can't get the player's name, assume it's not a real player
-            return false;
-        }
+    private isServerPlayer(player: hz.Player): boolean {
+        return player.id === this.world.getServerPlayer().id;
     }
 }
 
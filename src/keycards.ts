@@ -0,0 +1,115 @@
+import * as hz from 'horizon/core';
+import { ActionGuard, DeviceType } from './inputMapper';
+import { localization } from './localization';
+
+/**
+ * ========================================
+ * KEYCARDS - ITEM-BASED ACCESS
+ * ========================================
+ *
+ * WHAT IT DOES:
+ * Lets an action (like opening a door) require an item. Any entity with the
+ * keycard tag counts: a player has it if they're holding it, or if they own it
+ * (Horizon hands ownership to whoever picked it up or had it given to them).
+ *
+ * HOW TO USE:
+ * 1. Tag your keycard objects (e.g. "keycard") in the Properties panel
+ * 2. Create one tracker per component - it listens for grabs on every tagged entity
+ * 3. Use requireKeycard() as a guard or door access policy
+ * ```
+ * const keycards = new KeycardTracker(this, 'keycard');
+ * door.addAccessPolicy(requireKeycard(keycards));
+ * ```
+ *
+ * The tracker finds keycards when it's created - keycards spawned later
+ * aren't tracked until you call refresh().
+ */
+
+// How a player has to have the keycard
+export type KeycardMode = 'held' | 'owned' | 'either';
+
+// Rejection reasons per device (message IDs) - VR players hold things, others pick them up
+const DEFAULT_KEYCARD_REASONS: Record<DeviceType, string> = {
+    vr: 'keycard.hold',
+    mobile: 'keycard.pickUp',
+    desktop: 'keycard.pickUp',
+};
+
+export class KeycardTracker {
+    // Keycard entity id -> id of the player holding it
+    private holders = new Map<bigint, number>();
+
+    private keycards: hz.Entity[] = [];
+    private subscriptions: hz.EventSubscription[] = [];
+
+    /**
+     * @param component - Component whose lifetime the grab listeners share
+     * @param tag - Entity tag that marks keycards
+     */
+    constructor(private readonly component: hz.Component, readonly tag = 'keycard') {
+        this.refresh();
+    }
+
+    /**
+     * Looks up the tagged entities again - call after spawning new keycards
+     */
+    refresh() {
+        this.dispose();
+        this.keycards = this.component.world.getEntitiesWithTags([this.tag]);
+
+        for (const keycard of this.keycards) {
+            this.subscriptions.push(
+                this.component.connectCodeBlockEvent(keycard, hz.CodeBlockEvents.OnGrabStart, (_isRightHand, player) => {
+                    this.holders.set(keycard.id, player.id);
+                }),
+                this.component.connectCodeBlockEvent(keycard, hz.CodeBlockEvents.OnGrabEnd, (_player: hz.Player) => {
+                    this.holders.delete(keycard.id);
+                })
+            );
+        }
+    }
+
+    // True while the player has a keycard in hand
+    isHolding(player: hz.Player): boolean {
+        for (const holderId of this.holders.values()) {
+            if (holderId === player.id) return true;
+        }
+        return false;
+    }
+
+    // True if the player owns any keycard
+    owns(player: hz.Player): boolean {
+        return this.keycards.some((keycard) => keycard.owner.get().id === player.id);
+    }
+
+    /**
+     * Stops listening for grabs
+     */
+    dispose() {
+        this.subscriptions.forEach((subscription) => subscription.disconnect());
+        this.subscriptions = [];
+        this.holders.clear();
+    }
+}
+
+/**
+ * Only players with a keycard may trigger
+ *
+ * @param tracker - Tracks who holds and owns the keycards
+ * @param mode - Optional: 'held', 'owned' or 'either' (default)
+ * @param reasons - Optional: rejection reason per device - message IDs or plain text
+ */
+export function requireKeycard(
+    tracker: KeycardTracker,
+    mode: KeycardMode = 'either',
+    reasons: Record<DeviceType, string> = DEFAULT_KEYCARD_REASONS
+): ActionGuard {
+    return (context, info) => {
+        const { player } = context;
+        const holding = mode !== 'owned' && tracker.isHolding(player);
+        const owning = mode !== 'held' && tracker.owns(player);
+        if (!holding && !owning) {
+            return localization.localize(player, reasons[info.deviceType]);
+        }
+    };
+}
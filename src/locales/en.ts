@@ -0,0 +1,41 @@
+import { MessageTable } from '../localization';
+
+/**
+ * English - the fallback for every other locale, so every message ID lives here
+ */
+export const EN: MessageTable = {
+    // How each device interacts with things
+    'verb.vr': 'Grab',
+    'verb.mobile': 'Tap',
+    'verb.desktop': 'Click',
+    'list.or': 'or',
+
+    // Hints (hints.ts)
+    'hint.template': '{verb} the {target} to {action}',
+    'hint.object': 'object',
+
+    // Guard rejections (guards.ts, keycards.ts)
+    'guard.cooldown': 'Please wait before trying again',
+    'guard.duringHours': 'Not available at this time',
+    'guard.rateLimit': 'Too many attempts - slow down',
+    'guard.team': 'Only {teams} team can do this',
+    'guard.role': 'You don\'t have permission to do this',
+    'guard.allowPlayers': 'You\'re not on the list',
+    'guard.withinDistance': 'Move closer to interact',
+    'keycard.hold': 'Hold a keycard in your hand to open this',
+    'keycard.pickUp': 'Pick up a keycard to open this',
+
+    // InputMapper rejections
+    'input.guardFailed': 'Guard failed',
+    'input.blockedByMiddleware': 'Blocked by middleware',
+
+    // Doors (prefabs/Door.ts, prefabs/DoorGroup.ts)
+    'door.target': 'door',
+    'door.hint.vr': 'Grab the door handle to {action}',
+    'door.open': 'open',
+    'door.close': 'close',
+    'door.denied': '🔒 {reason}',
+    'door.locked': 'The door is locked',
+    'door.notAllowed': 'This door isn\'t for you',
+    'door.interlock': 'Wait for the other door to close',
+};
@@ -0,0 +1,33 @@
+import { MessageTable } from '../localization';
+
+/**
+ * Spanish - messages missing here fall back to English
+ */
+export const ES: MessageTable = {
+    'verb.vr': 'Agarra',
+    'verb.mobile': 'Toca',
+    'verb.desktop': 'Haz clic en',
+    'list.or': 'o',
+
+    // Targets carry their own article - Spanish nouns have gender
+    'hint.template': '{verb} {target} para {action}',
+    'hint.object': 'el objeto',
+
+    'guard.cooldown': 'Espera un momento antes de volver a intentarlo',
+    'guard.duringHours': 'No disponible en este momento',
+    'guard.rateLimit': 'Demasiados intentos - ve más despacio',
+    'guard.team': 'Solo el equipo {teams} puede hacer esto',
+    'guard.role': 'No tienes permiso para hacer esto',
+    'guard.allowPlayers': 'No estás en la lista',
+    'guard.withinDistance': 'Acércate para interactuar',
+    'keycard.hold': 'Sujeta una tarjeta de acceso en la mano para abrir',
+    'keycard.pickUp': 'Recoge una tarjeta de acceso para abrir',
+
+    'door.target': 'la puerta',
+    'door.hint.vr': 'Agarra el pomo de la puerta para {action}',
+    'door.open': 'abrir',
+    'door.close': 'cerrar',
+    'door.locked': 'La puerta está cerrada con llave',
+    'door.notAllowed': 'Esta puerta no es para ti',
+    'door.interlock': 'Espera a que se cierre la otra puerta',
+};
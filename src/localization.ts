@@ -0,0 +1,185 @@
+import * as hz from 'horizon/core';
+import { EN } from './locales/en';
+import { ES } from './locales/es';
+
+/**
+ * ========================================
+ * LOCALIZATION - PLAYER-FACING TEXT IN ANY LANGUAGE
+ * ========================================
+ *
+ * WHAT IT DOES:
+ * Looks up player-facing text by message ID in per-locale string tables
+ * (src/locales/), in the language each player picked. Messages can have
+ * {placeholders} and plural forms. Anything missing in a player's language
+ * falls back to English.
+ *
+ * Hints, door prompts, guard rejections and device verbs (Grab/Tap/Click) all
+ * go through the shared `localization` instance, so setting a player's locale
+ * switches all of them.
+ *
+ * HOW TO USE:
+ * ```
+ * localization.setPlayerLocale(player, 'es');
+ * localization.translate(player, 'door.locked');                  // 'La puerta está cerrada con llave'
+ * localization.translate(player, 'guard.team', { teams: 'red' });  // {placeholders} filled in
+ * ```
+ *
+ * ADDING A LANGUAGE:
+ * Copy src/locales/en.ts, translate the values and register it - or add your
+ * own messages to an existing locale the same way:
+ * ```
+ * localization.addLocale('fr', FR);
+ * localization.addLocale('en', { 'shop.coins': { one: '{count} coin', other: '{count} coins' } });
+ * ```
+ *
+ * Places that take a message (guard reasons, hint targets, lock reasons...)
+ * accept a message ID or plain text - plain text is shown as it is.
+ */
+
+// Plural forms of one message, picked by the `count` parameter
+// Categories follow Intl.PluralRules; `zero` is used for 0 when it's given
+export interface PluralForms {
+    zero?: string;
+    one?: string;
+    two?: string;
+    few?: string;
+    many?: string;
+    other: string;
+}
+
+// One locale's messages, by message ID
+export type MessageTable = Record<string, string | PluralForms>;
+
+// Values for a message's {placeholders} - `count` also picks plural forms
+export type MessageParams = Record<string, string | number>;
+
+export class Localization {
+    // Locale -> its messages
+    private tables = new Map<string, MessageTable>();
+
+    // Player id -> the locale they picked
+    private playerLocales = new Map<number, string>();
+
+    /**
+     * @param fallbackLocale - Used for players without a locale, and for messages a locale is missing
+     */
+    constructor(readonly fallbackLocale = 'en') {}
+
+    // ========================================
+    // LOCALES
+    // ========================================
+
+    /**
+     * Adds a locale's messages - merged into any it already has
+     */
+    addLocale(locale: string, table: MessageTable) {
+        this.tables.set(locale, { ...this.tables.get(locale), ...table });
+    }
+
+    /**
+     * Gets the locales that have messages
+     */
+    getLocales(): string[] {
+        return Array.from(this.tables.keys());
+    }
+
+    /**
+     * Sets the language a player sees, e.g. 'es' or 'pt-BR'
+     * Regional locales fall back to their language ('pt-BR' -> 'pt'), then to the fallback locale
+     */
+    setPlayerLocale(player: hz.Player, locale: string) {
+        if (!this.tables.has(locale) && !this.tables.has(this.languageOf(locale))) {
+            console.warn(`⚠️ Localization: No messages for '${locale}' - ${player.name.get()} will see ${this.fallbackLocale}`);
+        }
+        this.playerLocales.set(player.id, locale);
+    }
+
+    /**
+     * Gets the locale a player picked (the fallback locale if they haven't)
+     */
+    getPlayerLocale(player: hz.Player): string {
+        return this.playerLocales.get(player.id) ?? this.fallbackLocale;
+    }
+
+    /**
+     * Forgets a player's locale - e.g. when they leave the world
+     */
+    clearPlayerLocale(player: hz.Player) {
+        this.playerLocales.delete(player.id);
+    }
+
+    // ========================================
+    // LOOKUP
+    // ========================================
+
+    /**
+     * True if any locale has a message with this ID
+     */
+    has(id: string): boolean {
+        for (const table of this.tables.values()) {
+            if (id in table) return true;
+        }
+        return false;
+    }
+
+    /**
+     * Gets a message in a player's (or a locale's) language
+     * Unknown IDs come back as they are, so a missing message is easy to spot
+     *
+     * @param target - The player, or a locale like 'es'
+     * @param id - Message ID, e.g. 'door.locked'
+     * @param params - Optional: values for the message's {placeholders}
+     */
+    translate(target: hz.Player | string, id: string, params: MessageParams = {}): string {
+        const locale = typeof target === 'string' ? target : this.getPlayerLocale(target);
+        for (const candidate of this.getLookupChain(locale)) {
+            const message = this.tables.get(candidate)?.[id];
+            if (message !== undefined) {
+                return this.format(candidate, message, params);
+            }
+        }
+        return this.interpolate(id, params);
+    }
+
+    /**
+     * Like translate(), for text that may be a message ID or plain text -
+     * plain text gets its {placeholders} filled in and is otherwise left alone
+     */
+    localize(target: hz.Player | string, text: string, params: MessageParams = {}): string {
+        return this.has(text) ? this.translate(target, text, params) : this.interpolate(text, params);
+    }
+
+    // The locales to try, in order: 'pt-BR' -> 'pt' -> 'en'
+    private getLookupChain(locale: string): string[] {
+        return [...new Set([locale, this.languageOf(locale), this.fallbackLocale])];
+    }
+
+    private languageOf(locale: string): string {
+        return locale.split('-')[0];
+    }
+
+    private format(locale: string, message: string | PluralForms, params: MessageParams): string {
+        const text = typeof message === 'string' ? message : this.selectPlural(locale, message, Number(params.count ?? 0));
+        return this.interpolate(text, params);
+    }
+
+    private selectPlural(locale: string, forms: PluralForms, count: number): string {
+        if (count === 0 && forms.zero !== undefined) return forms.zero;
+
+        // Intl isn't guaranteed everywhere scripts run - English rules are a fair guess without it
+        const category = typeof Intl !== 'undefined' && Intl.PluralRules
+            ? new Intl.PluralRules(locale).select(count)
+            : count === 1 ? 'one' : 'other';
+        return forms[category] ?? forms.other;
+    }
+
+    // Fills in {placeholders} - unknown ones are left as they are
+    private interpolate(text: string, params: MessageParams): string {
+        return text.replace(/\{(\w+)\}/g, (match, key: string) => key in params ? String(params[key]) : match);
+    }
+}
+
+// The shared instance everything player-facing goes through, with the bundled locales
+export const localization = new Localization();
+localization.addLocale('en', EN);
+localization.addLocale('es', ES);
@@ -0,0 +1,164 @@
+import * as hz from 'horizon/core';
+import { ActionSubscription, DeviceType } from './inputMapper';
+
+/**
+ * ========================================
+ * PLAYER REGISTRY
+ * ========================================
+ *
+ * WHAT IT DOES:
+ * Keeps the one list of players who are actually in the world, with when they
+ * joined and which devices they used. The InputMapper fills it from world
+ * enter/exit events and answers getPlayerStats() from it.
+ *
+ * HOW TO USE:
+ * Don't create your own - use the InputMapper's:
+ * ```
+ * const registry = inputMapper.players;
+ * registry.onJoin((record) => console.log(`${record.player.name.get()} joined on ${record.device}`));
+ * registry.onLeave((record) => console.log(`Session lasted ${registry.getSessionDuration(record)}s`));
+ * ```
+ *
+ * The server player never joins. Entering twice or leaving without having
+ * joined is ignored, so the count can't drift.
+ */
+
+// One device a player used, and when they switched to it
+export interface DeviceHistoryEntry {
+    device: DeviceType;
+    since: number;          // Date.now() timestamp
+}
+
+// Everything the registry knows about one player
+export interface PlayerRecord {
+    readonly player: hz.Player;
+    readonly joinedAt: number;              // Date.now() timestamp
+    leftAt?: number;                        // Set once the player leaves
+    device: DeviceType;                     // Current device
+    readonly history: DeviceHistoryEntry[]; // Every device used this session, oldest first
+}
+
+export type PlayerRecordListener = (record: PlayerRecord) => void;
+
+export class PlayerRegistry {
+    // Present players, keyed by player id
+    private records = new Map<number, PlayerRecord>();
+
+    private joinListeners: PlayerRecordListener[] = [];
+    private leaveListeners: PlayerRecordListener[] = [];
+
+    // ========================================
+    // MEMBERSHIP
+    // ========================================
+
+    /**
+     * Adds a player who entered the world
+     * @returns Their new record, or undefined if they were already registered
+     */
+    join(player: hz.Player, device: DeviceType): PlayerRecord | undefined {
+        if (this.records.has(player.id)) return undefined;
+
+        const now = Date.now();
+        const record: PlayerRecord = { player, joinedAt: now, device, history: [{ device, since: now }] };
+        this.records.set(player.id, record);
+        this.notify(this.joinListeners, record);
+        return record;
+    }
+
+    /**
+     * Removes a player who left the world
+     * @returns Their final record, or undefined if they weren't registered
+     */
+    leave(player: hz.Player): PlayerRecord | undefined {
+        const record = this.records.get(player.id);
+        if (!record) return undefined;
+
+        this.records.delete(player.id);
+        record.leftAt = Date.now();
+        this.notify(this.leaveListeners, record);
+        return record;
+    }
+
+    /**
+     * Notes a device switch in the player's history (ignored for unknown players or no change)
+     */
+    recordDevice(player: hz.Player, device: DeviceType) {
+        const record = this.records.get(player.id);
+        if (!record || record.device === device) return;
+
+        record.device = device;
+        record.history.push({ device, since: Date.now() });
+    }
+
+    // ========================================
+    // QUERIES
+    // ========================================
+
+    // How many players are in the world
+    get count(): number {
+        return this.records.size;
+    }
+
+    has(player: hz.Player): boolean {
+        return this.records.has(player.id);
+    }
+
+    get(player: hz.Player): PlayerRecord | undefined {
+        return this.records.get(player.id);
+    }
+
+    // Records of everyone present, in join order
+    getAll(): PlayerRecord[] {
+        return Array.from(this.records.values());
+    }
+
+    /**
+     * Seconds a player has been (or was) in the world
+     * @param playerOrRecord - A present player, or a record from onLeave()
+     */
+    getSessionDuration(playerOrRecord: hz.Player | PlayerRecord): number {
+        const record = playerOrRecord instanceof hz.Player ? this.records.get(playerOrRecord.id) : playerOrRecord;
+        if (!record) return 0;
+        return ((record.leftAt ?? Date.now()) - record.joinedAt) / 1000;
+    }
+
+    // ========================================
+    // EVENTS
+    // ========================================
+
+    /**
+     * Get told when a player joins
+     * @returns A subscription - call disconnect() to stop listening
+     */
+    onJoin(listener: PlayerRecordListener): ActionSubscription {
+        this.joinListeners.push(listener);
+        return {
+            disconnect: () => {
+                this.joinListeners = this.joinListeners.filter((entry) => entry !== listener);
+            }
+        };
+    }
+
+    /**
+     * Get told when a player leaves - the record has leftAt set
+     * @returns A subscription - call disconnect() to stop listening
+     */
+    onLeave(listener: PlayerRecordListener): ActionSubscription {
+        this.leaveListeners.push(listener);
+        return {
+            disconnect: () => {
+                this.leaveListeners = this.leaveListeners.filter((entry) => entry !== listener);
+            }
+        };
+    }
+
+    private notify(listeners: PlayerRecordListener[], record: PlayerRecord) {
+        for (const listener of listeners) {
+            try {
+                listener(record);
+            } catch (error) {
+                console.error('❌ Error in player registry listener:', error);
+            }
+        }
+    }
+}
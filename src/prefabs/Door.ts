@@ -1,5 +1,11 @@
 import * as hz from 'horizon/core';
-import { InputMapper, InteractionContext } from './InputMapper';
+import { ActionGuard, ActionInfo, ActionSubscription, DeviceType, InputMapper, InteractionContext, TriggerResult, defineAction } from '../inputMapper';
+import { FeedbackService } from '../feedback';
+import { allowPlayers } from '../guards';
+import { Hint, HintDisplay, HintService, consoleHintDisplay, popupHintDisplay, worldTextHintDisplay } from '../hints';
+import { KeycardTracker, requireKeycard } from '../keycards';
+import { localization } from '../localization';
+import { Tween, TweenStatus, Tweener } from '../tween';
 
 /**
  * ========================================
@@ -19,9 +25,63 @@ import { InputMapper, InteractionContext } from './InputMapper';
  * HOW IT WORKS:
  * 1. Connects to your InputMapper component during startup
  * 2. Registers a 'door_interact' action with handlers for each device type
- * 3. Listens for player interactions through trigger events
- * 4. Routes interactions through InputMapper for automatic device detection
+ * 3. Binds the action to grabs/taps on the trigger zone, plus an Interact
+ *    button (mobile) or key (desktop) while players stand in it - InputMapper listens for them
+ * 4. InputMapper detects the player's device and routes the interaction
  * 5. Executes appropriate door behavior based on device type
+ * 6. The server copy of the door broadcasts every change so all players see it
+ *
+ * DOOR KINDS:
+ * - hinged (default): swings openAngle degrees around hingeAxis - through
+ *   hingePivot if you set one (your DoorHinge object), else the door's center
+ * - sliding: moves by slideOffset (in the door's own space) and back
+ * - double: set secondLeaf and it moves mirrored to this door - the other way
+ *   round its own secondHingePivot, or the other way along slideOffset
+ * Turn on openAwayFromPlayer to have a hinged door swing away from whoever opens
+ * it (needs hingePivot, so the door knows which side its free edge is on).
+ *
+ * STATES AND EVENTS:
+ * The door is always in one state: closed, opening, open, closing or locked.
+ * Interacting mid-swing turns the door around from wherever it is. Every state
+ * change is sent as DoorStateChangedEvent (for scripts) and as one of
+ * DoorCodeBlockEvents (for Code Blocks) on the door entity:
+ * ```
+ * this.connectLocalEvent(door, DoorStateChangedEvent, ({ to }) => {
+ *     if (to === 'opening') this.creakSound.play();
+ * });
+ * ```
+ *
+ * AUTOMATIC DOORS:
+ * Turn on autoOpen and the door opens for any player who walks into
+ * interactionTrigger and passes its access policies - mobile and desktop
+ * players can't grab a trigger, so this is the easiest door for them.
+ * Walking in fires door_interact with intent 'open' (it never closes the
+ * door), so guards, middleware and server forwarding apply as for a grab.
+ * Either way, the door tracks who is inside the trigger and only starts
+ * the autoCloseDelay countdown once the last of them has left.
+ *
+ * DOORS SIDE BY SIDE:
+ * If trigger zones overlap, turn on useFocus for each door: a grab then only
+ * reaches the door the player aims at (see focus.ts), and focusHighlight
+ * shows them which one that is.
+ *
+ * ACCESS CONTROL:
+ * Opening the door takes passing its access policies first - any guard from
+ * guards.ts or keycards.ts works. Closing never does, so nobody gets stuck
+ * unable to shut a door someone else opened. requireKeycard and allowedPlayers set up the
+ * common ones from the editor; add your own with addAccessPolicy(). A player
+ * who is turned away gets the reason as a popup (plus a buzz in VR).
+ * ```
+ * door.addAccessPolicy(anyOf(requireKeycard(keycards), requireRole(getRoles, ['security'])));
+ * door.addAccessPolicy(duringHours(9, 17, 'The office is closed'));
+ * ```
+ *
+ * MULTIPLAYER:
+ * The server owns the door's state. Copies of the script running on player
+ * devices ask for it when they start and apply it instantly (no animation), so
+ * late joiners see an open door as open. Later changes animate for everyone.
+ * Set persistenceKey to also save the state in world persistent storage so it
+ * survives a server restart.
  * 
  * SETUP INSTRUCTIONS:
  * 1. Create a door object (3D shape or imported model)
@@ -41,6 +101,92 @@ import { InputMapper, InteractionContext } from './InputMapper';
  * ```
  */
 
+// What an interaction asks for: 'toggle' (grabs, taps, the Interact button)
+// or 'open' (walking into an autoOpen door's trigger - never closes it)
+export type DoorIntent = 'toggle' | 'open';
+
+// Data every door interaction carries
+export interface DoorInteractData {
+    doorName: string;
+    isCurrentlyOpen: boolean;
+    playerDevice: DeviceType;
+    intent: DoorIntent;
+}
+
+// Where the door is in its open/close cycle
+export type DoorState = 'closed' | 'opening' | 'open' | 'closing' | 'locked';
+
+// One state change, as sent in DoorStateChangedEvent
+export interface DoorStateChange {
+    door: hz.Entity;
+    from: DoorState;
+    to: DoorState;
+    player?: hz.Player;     // Who caused it - missing for auto-close and script calls
+}
+
+// Sent on the door entity every time its state changes - listen with connectLocalEvent()
+export const DoorStateChangedEvent = new hz.LocalEvent<DoorStateChange>('UniversalDoor.stateChanged');
+
+// The same changes for Code Blocks - listen for these on the door object
+export const DoorCodeBlockEvents = {
+    opening: new hz.CodeBlockEvent<[]>('doorOpening', []),
+    opened: new hz.CodeBlockEvent<[]>('doorOpened', []),
+    closing: new hz.CodeBlockEvent<[]>('doorClosing', []),
+    closed: new hz.CodeBlockEvent<[]>('doorClosed', []),
+    locked: new hz.CodeBlockEvent<[]>('doorLocked', []),
+    unlocked: new hz.CodeBlockEvent<[]>('doorUnlocked', []),
+};
+
+// The Code Block event sent on entering each state (doorUnlocked is sent on leaving 'locked')
+const CODE_BLOCK_EVENT_FOR_STATE: Record<DoorState, hz.CodeBlockEvent<[]>> = {
+    opening: DoorCodeBlockEvents.opening,
+    open: DoorCodeBlockEvents.opened,
+    closing: DoorCodeBlockEvents.closing,
+    closed: DoorCodeBlockEvents.closed,
+    locked: DoorCodeBlockEvents.locked,
+};
+
+// How the door moves when it opens
+export type DoorKind = 'hinged' | 'sliding';
+
+// Where a door leaf sits when closed
+export interface DoorPose {
+    position: hz.Vec3;
+    rotation: hz.Quaternion;
+    pivot?: hz.Vec3;        // Hinge point, for leaves that swing around a pivot entity
+}
+
+// One moving part of the door - the door itself, plus the second leaf of a double door
+interface DoorLeaf {
+    entity: hz.Entity;
+    closed: DoorPose;
+    mirror: 1 | -1;         // -1 moves the opposite way (the second leaf of a double door)
+}
+
+// The door state the server shares with every player
+export interface DoorStateMessage {
+    state: DoorState;
+    immediate: boolean;     // true = snap into place (late joiners), false = animate
+    closedPoses: DoorPose[]; // The server's closed poses, one per leaf - a late joiner may start with the door already open
+    swingDirection: 1 | -1; // Which way a hinged door swings this time (see openAwayFromPlayer)
+}
+
+// What gets saved in world persistent storage
+export interface DoorSavedState {
+    isOpen: boolean;
+    isLocked?: boolean;     // Missing in states saved before doors could lock
+}
+
+// Server -> players: the door's current state, sent on the door entity
+export const DoorStateEvent = new hz.NetworkEvent<DoorStateMessage>('UniversalDoor.state');
+
+// Player -> server: "I just started, what state is this door in?"
+export const DoorStateRequestEvent = new hz.NetworkEvent<{ player: hz.Player }>('UniversalDoor.stateRequest');
+
+// The door's action - shared name, scoped per door entity when registered
+// Server-authoritative so every player sees the same door
+export const DoorInteract = defineAction<DoorInteractData>('door_interact', { execution: 'server' });
+
 export class UniversalDoor extends hz.Component<typeof UniversalDoor> {
     
     // ========================================
@@ -51,29 +197,103 @@ export class UniversalDoor extends hz.Component<typeof UniversalDoor> {
             type: hz.PropTypes.Entity, 
             description: "Drag the object with InputMapper script here - this connects the door to the universal input system" 
         },
+        feedback: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: the object with the FeedbackService script - plays haptics, sounds and effects that suit each device"
+        },
+        doorKind: {
+            type: hz.PropTypes.String,
+            default: 'hinged',
+            description: "How the door opens: 'hinged' (swings) or 'sliding'"
+        },
         openAngle: { 
             type: hz.PropTypes.Number, 
             default: 90, 
             description: "How many degrees the door rotates when opening (90 = quarter turn)" 
         },
+        hingeAxis: {
+            type: hz.PropTypes.Vec3,
+            default: new hz.Vec3(0, 1, 0),
+            description: "Axis a hinged door swings around, in the door's own space (0,1,0 = upright hinge, 1,0,0 = hatch)"
+        },
+        hingePivot: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: your DoorHinge object - the door swings around it instead of its own center"
+        },
+        slideOffset: {
+            type: hz.PropTypes.Vec3,
+            default: new hz.Vec3(1, 0, 0),
+            description: "How far (meters) and which way a sliding door moves, in the door's own space"
+        },
+        secondLeaf: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: the other half of a double door - it moves mirrored to this one"
+        },
+        secondHingePivot: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: the hinge object of secondLeaf"
+        },
+        openAwayFromPlayer: {
+            type: hz.PropTypes.Boolean,
+            default: false,
+            description: "Hinged doors swing away from the player who opens them (needs hingePivot)"
+        },
         openSpeed: { 
             type: hz.PropTypes.Number, 
             default: 1.0, 
-            description: "Animation speed multiplier (1.0 = normal, 2.0 = twice as fast, 0.5 = half speed)" 
+            description: "Animation speed multiplier (1.0 = one second to open, 2.0 = twice as fast, 0.5 = half speed)" 
         },
         interactionTrigger: { 
             type: hz.PropTypes.Entity, 
             description: "Drag your trigger zone here - this detects when players get near the door" 
         },
+        hintStyle: {
+            type: hz.PropTypes.String,
+            default: 'console',
+            description: "Where players see interaction hints: 'console' (testing), 'popup' (on screen) or 'label' (hintLabel)"
+        },
+        hintLabel: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: a Text Gizmo near the door that shows hints when hintStyle is 'label'"
+        },
+        useFocus: {
+            type: hz.PropTypes.Boolean,
+            default: false,
+            description: "Only react to players aiming at this door - turn on when trigger zones overlap (e.g. doors side by side)"
+        },
+        focusHighlight: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: outline or glow shown to players while they aim at the door (needs useFocus)"
+        },
+        autoOpen: {
+            type: hz.PropTypes.Boolean,
+            default: false,
+            description: "Open automatically when an allowed player walks into the trigger zone"
+        },
         autoCloseDelay: {
             type: hz.PropTypes.Number,
             default: 5.0,
-            description: "Seconds before door automatically closes (0 = never auto-close)"
+            description: "Seconds after the last player leaves the trigger zone before the door closes (0 = never auto-close)"
         },
         requireKeycard: {
             type: hz.PropTypes.Boolean,
             default: false,
-            description: "Whether door requires a keycard to open (example of additional functionality)"
+            description: "Whether players need a keycard (held or owned) to open the door"
+        },
+        keycardTag: {
+            type: hz.PropTypes.String,
+            default: 'keycard',
+            description: "Tag on the objects that count as keycards for requireKeycard"
+        },
+        allowedPlayers: {
+            type: hz.PropTypes.String,
+            default: '',
+            description: "Comma-separated player names allowed to use the door (empty = everyone)"
+        },
+        persistenceKey: {
+            type: hz.PropTypes.String,
+            default: '',
+            description: "World persistent variable to save the door's state in, e.g. 'Doors:frontDoor' (empty = don't save)"
         }
     };
 
@@ -81,17 +301,66 @@ export class UniversalDoor extends hz.Component<typeof UniversalDoor> {
     // INTERNAL STATE VARIABLES
     // ========================================
     
-    // Tracks whether door is currently open or closed
-    private isOpen = false;
-    
-    // Tracks if door is currently animating (prevents multiple animations)
-    private isAnimating = false;
+    // Where the door is in its open/close cycle - only changed through setState()
+    private state: DoorState = 'closed';
+
+    // Set by lock() on a door that isn't closed yet - it locks once it shuts
+    private lockWhenClosed = false;
+
+    // What players are told when they try the locked door - a message ID or plain text
+    private lockReason = 'door.locked';
+
+    // Checks every interaction must pass, in order (see addAccessPolicy)
+    private accessPolicies: ActionGuard<DoorInteractData>[] = [];
+
+    // Tracks keycards when requireKeycard is on
+    private keycards: KeycardTracker | null = null;
     
     // Reference to the InputMapper component for device detection and routing
     private inputMapperComponent: InputMapper | null = null;
+
+    // Plays interaction and denial cues, if the feedback prop is set
+    private feedbackService: FeedbackService | null = null;
+
+    // Our door_interact registration, disconnected when the door is disposed
+    private interactSubscription: ActionSubscription | null = null;
+
+    // Our door_interact input binding, disconnected when the door is disposed
+    private interactBinding: ActionSubscription | null = null;
+
+    // The autoOpen walk-up binding - door_interact with the 'open' intent
+    private autoOpenBinding: ActionSubscription | null = null;
+
+    // Makes the door something players can aim at, when useFocus is on
+    private focusTarget: ActionSubscription | null = null;
+
+    // Players standing in the trigger zone - holds off auto-close
+    private playersNearby = new Map<number, hz.Player>();
+
+    // Shows nearby players how to use the door on their device
+    private hints: HintService | null = null;
+
+    // What the hint says (message IDs) - the action follows the door's state
+    private readonly doorHint: Hint = {
+        target: 'door.target',
+        action: () => this.isOpen ? 'door.close' : 'door.open',
+        templates: { vr: 'door.hint.vr' }
+    };
     
-    // Stores the door's original rotation for animation calculations
-    private originalRotation = new hz.Vec3(0, 0, 0);
+    // Every moving part, with the closed pose we animate from
+    private leaves: DoorLeaf[] = [];
+
+    // How far open the door is, 0 (closed) to 1 (open)
+    private openAmount = 0;
+
+    // Which way a hinged door swings this time - flipped by openAwayFromPlayer
+    private swingDirection: 1 | -1 = 1;
+
+    // Runs the door's swing animation from the world update loop
+    private tweens = new Tweener(this);
+
+    // The swing currently playing, if any - tweens openAmount
+    private swingTween: Tween<number> | null = null;
     
     // Timer for auto-closing functionality
     private autoCloseTimer: number = 0;
@@ -107,17 +376,22 @@ export class UniversalDoor extends hz.Component<typeof UniversalDoor> {
     preStart() {
         console.log('🚪 Universal Door initializing...');
         
-        // STEP 1: Get reference to InputMapper component
+        // STEP 1: Get reference to InputMapper component (and the optional FeedbackService)
         this.connectToInputMapper();
+        this.connectToFeedback();
         
         // STEP 2: Register our door interaction with device-specific handlers
         this.registerDoorInteraction();
+        this.setupAccessPolicies();
         
         // STEP 3: Set up trigger zone for player detection
         this.setupTriggerEvents();
         
-        // STEP 4: Store original rotation for animation reference
-        this.storeOriginalRotation();
+        // STEP 4: Store closed poses for animation reference
+        this.storeClosedPoses();
+
+        // STEP 5: Share state between the server and player devices
+        this.setupStateSync();
         
         console.log('🚪 Universal Door setup complete');
     }
@@ -137,6 +411,33 @@ export class UniversalDoor extends hz.Component<typeof UniversalDoor> {
         if (!this.props.interactionTrigger) {
             console.warn('⚠️ Universal Door: No interaction trigger set! Players won\'t be able to interact.');
         }
+
+        if (this.isServer()) {
+            this.restoreSavedState();
+        } else {
+            // We're on a player's device - ask the server what the door looks like right now
+            this.sendNetworkEvent(this.entity, DoorStateRequestEvent, { player: this.world.getLocalPlayer() });
+        }
+    }
+
+    /**
+     * dispose() - Called when the door is removed from the world
+     * Removes this door's handlers so the InputMapper doesn't call into a dead component
+     */
+    dispose() {
+        this.interactSubscription?.disconnect();
+        this.interactSubscription = null;
+        this.interactBinding?.disconnect();
+        this.interactBinding = null;
+        this.autoOpenBinding?.disconnect();
+        this.autoOpenBinding = null;
+        this.focusTarget?.disconnect();
+        this.focusTarget = null;
+        this.hints?.dispose();
+        this.hints = null;
+        this.keycards?.dispose();
+        this.keycards = null;
+        this.tweens.cancelAll();
     }
 
     // ========================================
@@ -154,9 +455,10 @@ export class UniversalDoor extends hz.Component<typeof UniversalDoor> {
         }
 
         // Search through all components on the InputMapper object to find the InputMapper script
+        // - the copy running where this door runs (server, or the owning player's device)
         const components = this.props.inputMapper.getComponents();
         for (const component of components) {
-            if (component instanceof InputMapper) {
+            if (component instanceof InputMapper && component.world.getLocalPlayer() === this.world.getLocalPlayer()) {
                 this.inputMapperComponent = component;
                 console.log('✅ Universal Door: Connected to InputMapper successfully');
                 break;
@@ -168,6 +470,21 @@ export class UniversalDoor extends hz.Component<typeof UniversalDoor> {
         }
     }
 
+    /**
+     * Finds the FeedbackService, if the feedback property is set
+     */
+    private connectToFeedback() {
+        if (!this.props.feedback) return;
+
+        for (const component of this.props.feedback.getComponents()) {
+            if (component instanceof FeedbackService) {
+                this.feedbackService = component;
+                return;
+            }
+        }
+        console.warn('⚠️ Universal Door: Could not find FeedbackService script on the feedback object - using popups only');
+    }
+
     /**
      * Registers the door interaction with device-specific handlers
      * This tells the InputMapper what to do when players interact on different devices
@@ -176,20 +493,65 @@ export class UniversalDoor extends hz.Component<typeof UniversalDoor> {
         if (!this.inputMapperComponent) return;
 
         // Register 'door_interact' action with handlers for each device type
-        this.inputMapperComponent.registerAction('door_interact', {
+        // Scoped to this door so other doors in the world keep their own handlers
+        // Walk-ups into an autoOpen door only ever open it, whatever the device
+        type DoorHandler = (ctx: InteractionContext<DoorInteractData>) => void;
+        const orWalkUp = (handler: DoorHandler): DoorHandler =>
+            (ctx) => ctx.data?.intent === 'open' ? this.handleWalkUp(ctx) : handler(ctx);
+
+        this.interactSubscription = this.inputMapperComponent.registerAction(DoorInteract, {
             // VR users will "grab" the door handle
-            vr: (ctx) => this.handleVRInteraction(ctx),
+            vr: orWalkUp((ctx) => this.handleVRInteraction(ctx)),
             
             // Mobile users will "tap" on the door
-            mobile: (ctx) => this.handleMobileInteraction(ctx),
+            mobile: orWalkUp((ctx) => this.handleMobileInteraction(ctx)),
             
             // Desktop users will "click" on the door
-            desktop: (ctx) => this.handleDesktopInteraction(ctx)
+            desktop: orWalkUp((ctx) => this.handleDesktopInteraction(ctx))
+        }, {
+            scope: this.entity,
+            // Checked once before any device handler runs
+            guards: [
+                (ctx) => this.isLockedOrLocking() ? localization.localize(ctx.player, this.lockReason) : undefined,
+                (ctx, info) => this.wouldOpen() ? this.checkAccess(ctx, info) : undefined
+            ]
         });
 
         console.log('📝 Universal Door: Registered door_interact action for all device types');
     }
 
+    /**
+     * Turns the editor's access settings into access policies
+     */
+    private setupAccessPolicies() {
+        if (this.props.requireKeycard) {
+            this.keycards = new KeycardTracker(this, this.props.keycardTag);
+            this.addAccessPolicy(requireKeycard(this.keycards));
+        }
+
+        const names = this.props.allowedPlayers.split(',').map((name) => name.trim()).filter((name) => name);
+        if (names.length > 0) {
+            this.addAccessPolicy(allowPlayers(names, 'door.notAllowed'));
+        }
+    }
+
+    /**
+     * True if an interaction now would open the door - access policies only gate opening
+     */
+    private wouldOpen(): boolean {
+        return this.state === 'closed' || this.state === 'closing';
+    }
+
+    /**
+     * Runs the access policies in order - the first to object turns the player away
+     */
+    private checkAccess(context: InteractionContext<DoorInteractData>, info: ActionInfo): string | void {
+        for (const policy of this.accessPolicies) {
+            const reason = policy(context, info);
+            if (reason) return reason;
+        }
+    }
+
     /**
      * Sets up trigger zone events for player detection
      * This detects when players get near the door and want to interact
@@ -197,12 +559,9 @@ export class UniversalDoor extends hz.Component<typeof UniversalDoor> {
     private setupTriggerEvents() {
         if (!this.props.interactionTrigger) return;
 
-        // Listen for when players grab the trigger (VR interaction)
-        this.connectCodeBlockEvent(
-            this.props.interactionTrigger,
-            hz.CodeBlockEvents.OnGrabStart,
-            (isRightHand: boolean, player: hz.Player) => this.triggerInteraction(player)
-        );
+        // Let InputMapper fire door_interact from grabs (VR, desktop click), taps (mobile)
+        // and the Interact button or key players get in the zone
+        this.bindDoorInputs(this.props.interactionTrigger);
 
         // Listen for when players enter the trigger area (proximity detection)
         this.connectCodeBlockEvent(
@@ -218,22 +577,65 @@ export class UniversalDoor extends hz.Component<typeof UniversalDoor> {
             (player: hz.Player) => this.onPlayerLeaveDoor(player)
         );
 
+        // Players who leave the world from the doorway never fire the exit event
+        this.connectCodeBlockEvent(
+            this.entity,
+            hz.CodeBlockEvents.OnPlayerExitWorld,
+            (player: hz.Player) => {
+                if (this.playersNearby.has(player.id)) this.onPlayerLeaveDoor(player);
+            }
+        );
+
+        // Hints follow each player's device, so someone who takes off their headset gets new wording
+        if (this.inputMapperComponent) {
+            this.hints = new HintService(this, this.inputMapperComponent, this.createHintDisplay());
+        }
+
         console.log('🎯 Universal Door: Trigger events connected');
     }
 
     /**
-     * Stores the door's original rotation for animation calculations
+     * Stores where each leaf sits when closed, for animation calculations
      * We need this to know where to animate back to when closing
      */
-    private storeOriginalRotation() {
-        const currentRotation = this.entity.rotation.get();
-        this.originalRotation = new hz.Vec3(
-            currentRotation.x,
-            currentRotation.y,
-            currentRotation.z
-        );
-        
-        console.log(`📐 Universal Door: Stored original rotation (${this.originalRotation.x}, ${this.originalRotation.y}, ${this.originalRotation.z})`);
+    private storeClosedPoses() {
+        if (this.props.doorKind !== 'hinged' && this.props.doorKind !== 'sliding') {
+            console.warn(`⚠️ Universal Door: Unknown doorKind '${this.props.doorKind}' - using 'hinged'`);
+        }
+
+        this.leaves = [this.createLeaf(this.entity, this.props.hingePivot, 1)];
+        if (this.props.secondLeaf) {
+            this.leaves.push(this.createLeaf(this.props.secondLeaf, this.props.secondHingePivot, -1));
+        }
+
+        const euler = this.leaves[0].closed.rotation.toEuler();
+        console.log(`📐 Universal Door: Stored original rotation (${euler.x}, ${euler.y}, ${euler.z})`);
+    }
+
+    private createLeaf(entity: hz.Entity, pivotEntity: hz.Entity | undefined, mirror: 1 | -1): DoorLeaf {
+        return {
+            entity,
+            mirror,
+            closed: {
+                position: entity.position.get().clone(),
+                rotation: entity.rotation.get().clone(),
+                pivot: pivotEntity?.position.get().clone()
+            }
+        };
+    }
+
+    /**
+     * Connects the state events: the server answers state requests,
+     * player devices apply the state the server sends
+     */
+    private setupStateSync() {
+        if (this.isServer()) {
+            this.connectNetworkEvent(this.entity, DoorStateRequestEvent, ({ player }) => {
+                this.sendNetworkEvent(this.entity, DoorStateEvent, this.getStateMessage(true), [player]);
+            });
+        } else {
+            this.connectNetworkEvent(this.entity, DoorStateEvent, (message) => this.applyState(message));
+        }
     }
 
     // ========================================
@@ -245,27 +647,37 @@ export class UniversalDoor extends hz.Component<typeof UniversalDoor> {
      * Shows device-appropriate interaction hints
      */
     private onPlayerNearDoor(player: hz.Player) {
-        if (!this.inputMapperComponent) return;
+        this.playersNearby.set(player.id, player);
 
-        // Detect what device this player is using
-        const deviceType = this.inputMapperComponent.detectDevice(player);
-        
-        // Show appropriate hint based on device
-        let hintMessage = '';
-        switch (deviceType) {
-            case 'vr':
-                hintMessage = `${player.name.get()}: Grab the door handle to ${this.isOpen ? 'close' : 'open'}`;
-                break;
-            case 'mobile':
-                hintMessage = `${player.name.get()}: Tap the door to ${this.isOpen ? 'close' : 'open'}`;
-                break;
-            case 'desktop':
-                hintMessage = `${player.name.get()}: Click the door to ${this.isOpen ? 'close' : 'open'}`;
-                break;
+        // Someone's in the doorway - don't close on them
+        this.clearAutoClose();
+
+        // Automatic doors open through their proximityEnter binding (see bindDoorInputs)
+        this.showHint(player);
+    }
+
+    /**
+     * Shows a hint that fits the player's device - automatic doors need none
+     */
+    private showHint(player: hz.Player) {
+        if (this.props.autoOpen) return;
+        this.hints?.show(player, this.doorHint);
+    }
+
+    /**
+     * Where hints appear, from hintStyle
+     */
+    private createHintDisplay(): HintDisplay {
+        switch (this.props.hintStyle) {
+            case 'popup':
+                return popupHintDisplay(this.world);
+            case 'label':
+                if (this.props.hintLabel) return worldTextHintDisplay(this.props.hintLabel);
+                console.warn("⚠️ Universal Door: hintStyle is 'label' but hintLabel isn't set - logging hints instead");
+                return consoleHintDisplay;
+            default:
+                return consoleHintDisplay;
         }
-        
-        console.log(`💡 ${hintMessage}`);
-        // In a real implementation, you might show a UI hint here
     }
 
     /**
@@ -273,33 +685,70 @@ export class UniversalDoor extends hz.Component<typeof UniversalDoor> {
      * Cleans up any UI hints or interaction states
      */
     private onPlayerLeaveDoor(player: hz.Player) {
+        this.playersNearby.delete(player.id);
         console.log(`👋 ${player.name.get()} moved away from door`);
-        // In a real implementation, you might hide UI hints here
+        this.hints?.hide(player);
+
+        // Last one out starts the auto-close countdown
+        this.scheduleAutoClose();
     }
 
     /**
-     * Main interaction trigger - routes the interaction through InputMapper
-     * This is where the magic happens - device detection and routing!
+     * Binds door_interact to the trigger zone - this is where the magic happens!
+     * InputMapper listens for the inputs, detects the device and calls the right handler
      */
-    private triggerInteraction(player: hz.Player) {
+    private bindDoorInputs(trigger: hz.Entity) {
         if (!this.inputMapperComponent) {
             console.warn('⚠️ Universal Door: Cannot interact - no InputMapper connected');
             return;
         }
-        
-        // Create interaction context with player and door information
-        const context: InteractionContext = { 
-            player: player, 
-            entity: this.entity,      // The door object
-            data: { 
-                doorName: this.entity.name.get(),
-                isCurrentlyOpen: this.isOpen,
-                playerDevice: this.inputMapperComponent.detectDevice(player)
-            }
-        };
-        
-        // Route through InputMapper - this automatically calls the right handler!
-        this.inputMapperComponent.trigger('door_interact', context);
+        const inputMapper = this.inputMapperComponent;
+
+        // Overlapping doors: only the one the player aims at reacts
+        if (this.props.useFocus) {
+            this.focusTarget = inputMapper.focus.addTarget(this.entity, { highlight: this.props.focusHighlight });
+        }
+
+        // Grabs, taps and trigger entries reach the server and every copy of the door,
+        // so only the server binds them - one grab mustn't toggle the door once per copy.
+        // Mobile and desktop players can rarely grab a trigger zone, so they also get an
+        // Interact button (or key) while they stand in it - that lives on their device
+        const onServer = this.isServer();
+        this.interactBinding = inputMapper.bindAction(DoorInteract, onServer ? {
+            vr: [{ input: 'grab', entity: trigger }],
+            mobile: [{ input: 'tap', entity: trigger }],
+            desktop: [{ input: 'grab', entity: trigger }]
+        } : {
+            mobile: [{ input: 'interact', entity: trigger }],
+            desktop: [{ input: 'interact', entity: trigger }]
+        }, {
+            entity: this.entity,      // The door object - selects this door's handlers
+            focus: this.props.useFocus,
+            data: (player) => this.getInteractData(inputMapper.detectDevice(player), 'toggle'),
+            onResult: (result, player) => this.onInteractResult(result, player)
+        });
+
+        // Automatic doors: walking in asks to open, through the same guards,
+        // middleware and server forwarding as any other interaction
+        if (this.props.autoOpen && onServer) {
+            this.autoOpenBinding = inputMapper.bindAction(DoorInteract, {
+                any: [{ input: 'proximityEnter', entity: trigger }]
+            }, {
+                entity: this.entity,
+                data: (player) => this.getInteractData(inputMapper.detectDevice(player), 'open'),
+                onResult: (result, player) => this.onInteractResult(result, player)
+            });
+        }
+    }
+
+    /**
+     * Tells players who were turned away why
+     */
+    private onInteractResult(result: TriggerResult<unknown>, player: hz.Player) {
+        if (result.status === 'rejected') {
+            console.log(`🔒 ${player.name.get()} can't use the door: ${result.rejection!.reason}`);
+            this.showAccessDenied(player, result.deviceType, result.rejection!.reason);
+        }
     }
 
     // ========================================
@@ -310,206 +759,398 @@ export class UniversalDoor extends hz.Component<typeof UniversalDoor> {
      * Handles VR user interactions (grabbing)
      * VR users expect tactile, physical interactions
      */
-    private handleVRInteraction(context: InteractionContext) {
+    private handleVRInteraction(context: InteractionContext<DoorInteractData>) {
         console.log(`🥽 VR user ${context.player.name.get()} grabbed the door handle`);
         
-        // Check if keycard is required (example of conditional logic)
-        if (this.props.requireKeycard && !this.isOpen) {
-            console.log(`🔒 Door requires keycard - ${context.player.name.get()} needs to find a keycard first`);
-            // In a real implementation, you might check player's inventory here
-            return;
-        }
-        
-        // Provide VR-specific feedback
-        this.showVRFeedback(context.player);
+        // A pulse in the hand that grabbed, plus sound and particles
+        this.feedbackService?.play(context.player, 'interact', 'vr', { hand: context.hand });
         
         // Execute the door toggle
-        this.toggleDoor();
+        this.toggleDoor(context.player);
     }
 
     /**
      * Handles mobile user interactions (tapping)
      * Mobile users expect simple, clear tap interactions
      */
-    private handleMobileInteraction(context: InteractionContext) {
+    private handleMobileInteraction(context: InteractionContext<DoorInteractData>) {
         console.log(`📱 Mobile user ${context.player.name.get()} tapped the door`);
         
-        // Mobile users might need different keycard logic (simpler UI)
-        if (this.props.requireKeycard && !this.isOpen) {
-            console.log(`🔒 Door requires keycard - showing mobile keycard interface`);
-            // In a real implementation, you might show a mobile-friendly keycard UI
-            return;
-        }
-        
-        // Provide mobile-specific feedback
-        this.showMobileFeedback(context.player);
+        // A screen flash and a tap sound
+        this.feedbackService?.play(context.player, 'interact', 'mobile');
         
         // Execute the door toggle
-        this.toggleDoor();
+        this.toggleDoor(context.player);
     }
 
     /**
      * Handles desktop user interactions (clicking)
      * Desktop users expect precise click interactions
      */
-    private handleDesktopInteraction(context: InteractionContext) {
+    private handleDesktopInteraction(context: InteractionContext<DoorInteractData>) {
         console.log(`🖥️ Desktop user ${context.player.name.get()} clicked the door`);
         
-        // Desktop users might have access to advanced keycard systems
-        if (this.props.requireKeycard && !this.isOpen) {
-            console.log(`🔒 Door requires keycard - opening desktop keycard panel`);
-            // In a real implementation, you might show a detailed keycard interface
-            return;
-        }
-        
-        // Provide desktop-specific feedback
-        this.showDesktopFeedback(context.player);
+        // A brief highlight on the door and a click sound
+        this.feedbackService?.play(context.player, 'interact', 'desktop');
         
         // Execute the door toggle
-        this.toggleDoor();
+        this.toggleDoor(context.player);
+    }
+
+    /**
+     * Handles a player walking into an automatic door's trigger - opens it,
+     * or turns it around if it's closing
+     */
+    private handleWalkUp(context: InteractionContext<DoorInteractData>) {
+        if (this.state !== 'closed' && this.state !== 'closing') return;
+
+        console.log(`🚶 ${context.player.name.get()} walked up - opening automatically`);
+        if (this.state === 'closing') {
+            this.reverseSwing(context.player);
+        } else {
+            this.startSwing('opening', context.player);
+        }
+    }
+
+    private getInteractData(playerDevice: DeviceType, intent: DoorIntent): DoorInteractData {
+        return {
+            doorName: this.entity.name.get(),
+            isCurrentlyOpen: this.isOpen,
+            playerDevice,
+            intent
+        };
+    }
+
+    /**
+     * Tells a player why the door won't open, in a way that suits their device
+     */
+    private showAccessDenied(player: hz.Player, deviceType: DeviceType, reason: string) {
+        const message = localization.translate(player, 'door.denied', { reason });
+        if (this.feedbackService) {
+            this.feedbackService.play(player, 'denied', deviceType, { message });
+            return;
+        }
+
+        // No FeedbackService - VR players may not be looking at the door, so a buzz in the hand gets their attention
+        if (deviceType === 'vr') {
+            player.rightHand.playHaptics(150, hz.HapticStrength.Medium, hz.HapticSharpness.Sharp);
+        }
+        this.world.ui.showPopupForPlayer(player, message, 2);
     }
 
     // ========================================
-    // DEVICE-SPECIFIC FEEDBACK METHODS
+    // DOOR ANIMATION AND LOGIC
     // ========================================
     
     /**
-     * Shows VR-appropriate feedback (haptic, spatial audio, etc.)
+     * Main door toggle method - opens a closed door, closes an open one,
+     * and turns a swinging door around from wherever it is
      */
-    private showVRFeedback(player: hz.Player) {
-        console.log(`🎮 Showing VR feedback for ${player.name.get()}`);
-        // In a real implementation, you might:
-        // - Trigger haptic feedback on controllers
-        // - Play spatial audio at door location
-        // - Show 3D particle effects
+    private toggleDoor(player?: hz.Player) {
+        switch (this.state) {
+            case 'closed':
+                this.startSwing('opening', player);
+                break;
+            case 'open':
+                this.startSwing('closing', player);
+                break;
+            case 'opening':
+            case 'closing':
+                this.reverseSwing(player);
+                break;
+            case 'locked':
+                console.log('🔒 Door is locked - ignoring interaction');
+                break;
+        }
     }
 
     /**
-     * Shows mobile-appropriate feedback (screen effects, simple audio)
+     * Starts swinging towards open ('opening') or closed ('closing')
      */
-    private showMobileFeedback(player: hz.Player) {
-        console.log(`📳 Showing mobile feedback for ${player.name.get()}`);
-        // In a real implementation, you might:
-        // - Show screen flash or highlight
-        // - Play simple tap sound
-        // - Display mobile-friendly UI confirmation
+    private startSwing(direction: 'opening' | 'closing', player?: hz.Player) {
+        this.clearAutoClose();
+        // Player devices get the direction from the server
+        if (direction === 'opening' && this.isServer()) {
+            this.swingDirection = this.chooseSwingDirection(player);
+        }
+        this.setState(direction, player);
+        console.log(`🚪 ${direction === 'opening' ? 'Opening' : 'Closing'} door...`);
+
+        // Animate the door
+        this.animateDoor(direction === 'opening').then((status) => {
+            if (status !== 'completed') return;     // Snapped or disposed mid-swing
+            this.finishSwing();
+        }).catch((error) => {
+            console.error('❌ Door animation failed:', error);
+        });
     }
 
     /**
-     * Shows desktop-appropriate feedback (cursor effects, UI notifications)
+     * Turns the current swing around - the door heads back from its current pose
      */
-    private showDesktopFeedback(player: hz.Player) {
-        console.log(`💻 Showing desktop feedback for ${player.name.get()}`);
-        // In a real implementation, you might:
-        // - Change cursor appearance briefly
-        // - Show desktop notification
-        // - Highlight the door temporarily
+    private reverseSwing(player?: hz.Player) {
+        if (!this.swingTween || this.swingTween.status !== 'running') return;
+        // lock() is shutting the door - nothing may open it again on the way
+        if (this.state === 'closing' && this.lockWhenClosed) return;
+
+        this.swingTween.reverse();
+        this.setState(this.state === 'opening' ? 'closing' : 'opening', player);
+        console.log(`↩️ Door reversed - now ${this.state}`);
     }
 
-    // ========================================
-    // DOOR ANIMATION AND LOGIC
-    // ========================================
-    
     /**
-     * Main door toggle method - handles opening/closing animation and logic
-     * This is where the actual door behavior happens
+     * Called when a swing arrives - settles into open or closed
      */
-    private toggleDoor() {
-        // Prevent multiple animations from running at once
-        if (this.isAnimating) {
-            console.log('🚪 Door is already animating - ignoring interaction');
-            return;
+    private finishSwing() {
+        if (this.state === 'opening') {
+            this.setState('open');
+            console.log('✅ Door opened successfully');
+            this.scheduleAutoClose();
+        } else if (this.state === 'closing') {
+            this.setState('closed');
+            console.log('✅ Door closed successfully');
+            if (this.lockWhenClosed) {
+                this.lockWhenClosed = false;
+                this.setState('locked');
+            }
+        }
+    }
+
+    /**
+     * Moves to a new state and tells everyone who cares:
+     * scripts and Code Blocks on this instance, and (on the server) every player's copy
+     */
+    private setState(next: DoorState, player?: hz.Player) {
+        const previous = this.state;
+        if (previous === next) return;
+        this.state = next;
+
+        this.sendLocalEvent(this.entity, DoorStateChangedEvent, { door: this.entity, from: previous, to: next, player });
+        if (previous === 'locked') {
+            this.sendCodeBlockEvent(this.entity, DoorCodeBlockEvents.unlocked);
         }
+        this.sendCodeBlockEvent(this.entity, CODE_BLOCK_EVENT_FOR_STATE[next]);
 
-        // Toggle the door state
-        this.isOpen = !this.isOpen;
-        this.isAnimating = true;
+        // "open" hints now read "close", and the other way round
+        this.hints?.refresh();
 
-        // Clear existing auto-close timer
+        // Let every player see the change, and remember it across restarts
+        this.broadcastState(false);
+        this.saveState();
+    }
+
+    /**
+     * Which way a hinged door should swing - away from `player` if openAwayFromPlayer is on
+     */
+    private chooseSwingDirection(player?: hz.Player): 1 | -1 {
+        const leaf = this.leaves[0];
+        if (!this.props.openAwayFromPlayer || !player || this.kind !== 'hinged' || !leaf.closed.pivot) {
+            return 1;
+        }
+
+        // Where the free edge heads when swinging the positive way, compared to where the player stands
+        const axis = leaf.closed.rotation.mulVec3(this.props.hingeAxis);
+        const motion = axis.cross(leaf.closed.position.sub(leaf.closed.pivot));
+        const toPlayer = player.position.get().sub(leaf.closed.position);
+        return motion.dot(toPlayer) > 0 ? -1 : 1;
+    }
+
+    /**
+     * Calculates where a leaf sits when the door is `amount` open (0 = closed, 1 = open)
+     */
+    private getLeafPose(leaf: DoorLeaf, amount: number): DoorPose {
+        const { closed } = leaf;
+
+        if (this.kind === 'sliding') {
+            const travel = closed.rotation.mulVec3(this.props.slideOffset).mul(amount * leaf.mirror);
+            return { position: closed.position.add(travel), rotation: closed.rotation };
+        }
+
+        // Hinged: turn around the axis, through the pivot (or the leaf's own center)
+        const axis = closed.rotation.mulVec3(this.props.hingeAxis);
+        const degrees = this.props.openAngle * amount * leaf.mirror * this.swingDirection;
+        const swing = hz.Quaternion.fromAxisAngle(axis, degrees * Math.PI / 180);
+        const pivot = closed.pivot ?? closed.position;
+        return {
+            position: pivot.add(swing.mulVec3(closed.position.sub(pivot))),
+            rotation: swing.mul(closed.rotation)
+        };
+    }
+
+    /**
+     * Moves every leaf to `amount` open
+     */
+    private applyOpenAmount(amount: number) {
+        this.openAmount = amount;
+        for (const leaf of this.leaves) {
+            const pose = this.getLeafPose(leaf, amount);
+            leaf.entity.position.set(pose.position);
+            leaf.entity.rotation.set(pose.rotation);
+        }
+    }
+
+    private get kind(): DoorKind {
+        return this.props.doorKind === 'sliding' ? 'sliding' : 'hinged';
+    }
+
+    /**
+     * Starts the auto-close countdown if the door is open, auto-close is on
+     * and nobody is standing in the trigger zone
+     */
+    private scheduleAutoClose() {
+        // Player devices follow the server's door rather than closing their own
+        if (!this.isServer()) return;
+
+        this.clearAutoClose();
+
+        if (this.state === 'open' && this.props.autoCloseDelay > 0 && this.playersNearby.size === 0) {
+            console.log(`⏱️ Door will auto-close in ${this.props.autoCloseDelay} seconds`);
+            this.autoCloseTimer = this.async.setTimeout(() => {
+                this.autoCloseTimer = 0;
+                if (this.state === 'open') {
+                    console.log('🕐 Auto-closing door...');
+                    this.startSwing('closing');
+                }
+            }, this.props.autoCloseDelay * 1000);
+        }
+    }
+
+    private clearAutoClose() {
         if (this.autoCloseTimer) {
             this.async.clearTimeout(this.autoCloseTimer);
             this.autoCloseTimer = 0;
         }
+    }
 
-        console.log(`🚪 ${this.isOpen ? 'Opening' : 'Closing'} door...`);
+    /**
+     * Animates the door open or closed from wherever it is now
+     * Resolves 'completed' when the door arrives, 'cancelled' if it was snapped or disposed first
+     */
+    private animateDoor(toOpen: boolean): Promise<TweenStatus> {
+        this.swingTween?.cancel();
+        const target = toOpen ? 1 : 0;
+        this.swingTween = this.tweens.number(this.openAmount, target, (amount) => this.applyOpenAmount(amount), {
+            duration: this.getSwingDuration() * Math.abs(target - this.openAmount),
+            easing: 'easeInOutCubic'
+        });
+        return this.swingTween.finished;
+    }
 
-        // Calculate target rotation
-        const targetRotationY = this.isOpen 
-            ? this.originalRotation.y + this.props.openAngle    // Open position
-            : this.originalRotation.y;                          // Closed position
+    /**
+     * Seconds a full swing takes - openSpeed 1.0 is one second, 2.0 half a second
+     */
+    private getSwingDuration(): number {
+        return this.props.openSpeed > 0 ? 1 / this.props.openSpeed : 0;
+    }
 
-        const targetRotation = new hz.Quaternion(
-            this.originalRotation.x,
-            targetRotationY,
-            this.originalRotation.z,
-            1
-        );
+    // ========================================
+    // MULTIPLAYER STATE SYNC
+    // ========================================
 
-        // Animate the door rotation
-        this.animateDoorRotation(targetRotation, this.props.openSpeed).then(() => {
-            this.isAnimating = false;
-            console.log(`✅ Door ${this.isOpen ? 'opened' : 'closed'} successfully`);
-
-            // Set up auto-close timer if door is open
-            if (this.isOpen && this.props.autoCloseDelay > 0) {
-                console.log(`⏱️ Door will auto-close in ${this.props.autoCloseDelay} seconds`);
-                this.autoCloseTimer = this.async.setTimeout(() => {
-                    if (this.isOpen && !this.isAnimating) {
-                        console.log('🕐 Auto-closing door...');
-                        this.toggleDoor();
-                    }
-                }, this.props.autoCloseDelay * 1000);
-            }
-        }).catch((error) => {
-            this.isAnimating = false;
-            console.error('❌ Door animation failed:', error);
-        });
+    /**
+     * True when this copy of the script runs on the server (and so owns the door's state)
+     */
+    private isServer(): boolean {
+        return this.world.getLocalPlayer().id === this.world.getServerPlayer().id;
     }
 
     /**
-     * Animates door rotation smoothly over time
-     * Custom animation system since Horizon Worlds doesn't have built-in tweening
-     */
-    private animateDoorRotation(targetRotation: hz.Quaternion, duration: number): Promise<void> {
-        return new Promise((resolve, reject) => {
-            try {
-                const startRotation = this.entity.rotation.get();
-                const startTime = Date.now();
-                const durationMs = duration * 1000;
-
-                const animate = () => {
-                    const elapsed = Date.now() - startTime;
-                    const progress = Math.min(elapsed / durationMs, 1);
-                    
-                    // Smooth easing function (ease-in-out)
-                    const easedProgress = progress < 0.5 
-                        ? 2 * progress * progress 
-                        : 1 - Math.pow(-2 * progress + 2, 3) / 2;
-                    
-                    // Interpolate between start and target rotation
-                    const lerpedRotation = new hz.Quaternion(
-                        startRotation.x + (targetRotation.x - startRotation.x) * easedProgress,
-                        startRotation.y + (targetRotation.y - startRotation.y) * easedProgress,
-                        startRotation.z + (targetRotation.z - startRotation.z) * easedProgress,
-                        startRotation.w + (targetRotation.w - startRotation.w) * easedProgress
-                    );
-
-                    // Apply the rotation
-                    this.entity.rotation.set(lerpedRotation);
-
-                    // Continue animation or finish
-                    if (progress < 1) {
-                        this.async.setTimeout(animate, 16); // ~60fps
-                    } else {
-                        resolve();
-                    }
-                };
-
-                animate();
-            } catch (error) {
-                reject(error);
-            }
-        });
+     * Server only: sends the door's state to every player's copy of the door
+     */
+    private broadcastState(immediate: boolean) {
+        if (!this.isServer()) return;
+        this.sendNetworkEvent(this.entity, DoorStateEvent, this.getStateMessage(immediate));
+    }
+
+    private getStateMessage(immediate: boolean): DoorStateMessage {
+        return {
+            state: this.state,
+            immediate,
+            closedPoses: this.leaves.map((leaf) => leaf.closed),
+            swingDirection: this.swingDirection
+        };
+    }
+
+    /**
+     * Player devices only: shows the state the server sent
+     * Immediate states snap into place; live changes play out like on the server
+     */
+    private applyState(message: DoorStateMessage) {
+        this.leaves.forEach((leaf, index) => leaf.closed = message.closedPoses[index] ?? leaf.closed);
+        this.swingDirection = message.swingDirection;
+
+        if (message.immediate) {
+            this.snapToState(message.state);
+            return;
+        }
+
+        switch (message.state) {
+            case 'opening':
+            case 'closing':
+                if (this.isAnimating) {
+                    if (this.state !== message.state) this.reverseSwing();
+                } else {
+                    this.startSwing(message.state);
+                }
+                break;
+            case 'open':
+            case 'closed':
+                // Our own swing gets there by itself - only snap if we're somewhere else
+                if (this.state !== (message.state === 'open' ? 'opening' : 'closing')) {
+                    this.snapToState(message.state);
+                }
+                break;
+            case 'locked':
+                this.snapToState('locked');
+                break;
+        }
+    }
+
+    /**
+     * Puts the door straight into a state without animating
+     * A swinging state snaps to where the swing was heading
+     */
+    private snapToState(state: DoorState) {
+        this.swingTween?.cancel();
+        this.clearAutoClose();
+
+        const settled: DoorState = state === 'opening' ? 'open' : state === 'closing' ? 'closed' : state;
+        this.applyOpenAmount(settled === 'open' ? 1 : 0);
+        this.setState(settled);
+    }
+
+    /**
+     * Server only: loads the saved state (if persistenceKey is set) and shares it
+     */
+    private async restoreSavedState() {
+        if (!this.props.persistenceKey) return;
+
+        try {
+            const saved = await this.world.persistentStorageWorld.fetchWorldVariableAsync<DoorSavedState>(this.props.persistenceKey);
+            if (!saved) return;
+
+            const state: DoorState = saved.isLocked ? 'locked' : saved.isOpen ? 'open' : 'closed';
+            if (state === this.state) return;
+
+            console.log(`💾 Universal Door: Restored saved state (${state})`);
+            this.snapToState(state);
+            this.broadcastState(true);
+            this.scheduleAutoClose();
+        } catch (error) {
+            console.error('❌ Universal Door: Could not load saved state:', error);
+        }
+    }
+
+    /**
+     * Server only: saves the state (if persistenceKey is set)
+     */
+    private saveState() {
+        if (!this.props.persistenceKey || !this.isServer()) return;
+
+        const state: DoorSavedState = { isOpen: this.isOpen, isLocked: this.state === 'locked' };
+        this.world.persistentStorageWorld
+            .setWorldVariableAcrossAllInstancesAsync(this.props.persistenceKey, state)
+            .catch((error) => console.error('❌ Universal Door: Could not save state:', error));
     }
 
     // ========================================
@@ -518,24 +1159,94 @@ export class UniversalDoor extends hz.Component<typeof UniversalDoor> {
     
     /**
      * Force opens the door (useful for other scripts or events)
+     * A closing door turns around; a locked door - or one closing to lock - stays shut until unlock()
      */
     public forceDoorOpen() {
-        if (!this.isOpen && !this.isAnimating) {
-            this.toggleDoor();
+        if (this.state === 'closed') {
+            this.startSwing('opening');
+        } else if (this.state === 'closing') {
+            this.reverseSwing();
         }
     }
 
     /**
      * Force closes the door (useful for other scripts or events)
+     * An opening door turns around
      */
     public forceDoorClose() {
-        if (this.isOpen && !this.isAnimating) {
-            this.toggleDoor();
+        if (this.state === 'open') {
+            this.startSwing('closing');
+        } else if (this.state === 'opening') {
+            this.reverseSwing();
+        }
+    }
+
+    /**
+     * Locks the door - straight away if it's closed, otherwise it closes first
+     * and locks when it shuts. Locked doors reject door_interact
+     * @param reason - Optional: what players are told when they try the door - a message ID or plain text
+     */
+    public lock(reason = 'door.locked') {
+        this.lockReason = reason;
+        if (this.state === 'locked') return;
+
+        if (this.state === 'closed') {
+            this.setState('locked');
+            return;
+        }
+        this.lockWhenClosed = true;
+        this.forceDoorClose();
+    }
+
+    /**
+     * Unlocks the door, leaving it closed (and cancels a pending lock)
+     */
+    public unlock() {
+        this.lockWhenClosed = false;
+        if (this.state === 'locked') {
+            this.setState('closed');
         }
     }
 
+    /**
+     * Adds a check players must pass to open the door - any guard from guards.ts or keycards.ts
+     * Policies run in the order added; the first to return a reason turns the player away.
+     * Closing the door skips them
+     * @returns A subscription - call disconnect() to remove the policy
+     */
+    public addAccessPolicy(policy: ActionGuard<DoorInteractData>): ActionSubscription {
+        this.accessPolicies.push(policy);
+        return {
+            disconnect: () => {
+                this.accessPolicies = this.accessPolicies.filter((entry) => entry !== policy);
+            }
+        };
+    }
+
+    /**
+     * True if the door is locked, or closing because lock() was called
+     */
+    public isLockedOrLocking(): boolean {
+        return this.state === 'locked' || this.lockWhenClosed;
+    }
+
+    /**
+     * Gets the players standing in the trigger zone
+     */
+    public getOccupants(): hz.Player[] {
+        return Array.from(this.playersNearby.values());
+    }
+
+    /**
+     * Gets the door's state machine state
+     */
+    public getState(): DoorState {
+        return this.state;
+    }
+
     /**
      * Gets current door state
+     * isOpen is true while open or opening; isAnimating while opening or closing
      */
     public getDoorState(): { isOpen: boolean, isAnimating: boolean } {
         return {
@@ -543,6 +1254,16 @@ export class UniversalDoor extends hz.Component<typeof UniversalDoor> {
             isAnimating: this.isAnimating
         };
     }
+
+    // Open, or on the way there
+    private get isOpen(): boolean {
+        return this.state === 'open' || this.state === 'opening';
+    }
+
+    // Mid-swing in either direction
+    private get isAnimating(): boolean {
+        return this.state === 'opening' || this.state === 'closing';
+    }
 }
 
 hz.Component.register(UniversalDoor);
@@ -574,9 +1295,24 @@ STEP 4: ATTACH AND CONFIGURE SCRIPTS
 2. In the script properties:
    - inputMapper: Drag your InputMapper_System object here
    - interactionTrigger: Drag your trigger zone here
+   - feedback: optional - your Feedback_System object (FeedbackService script)
+     for haptics, sounds and effects
+   - doorKind: 'hinged' or 'sliding'
+   - hingePivot: your DoorHinge object, if the door should swing around it
    - openAngle: 90 (or desired rotation degrees)
+   - slideOffset: sliding doors only - how far and which way they move
+   - secondLeaf: the other half of a double door (plus secondHingePivot)
    - openSpeed: 1.0 (or desired animation speed)
-   - autoCloseDelay: 5.0 (seconds, or 0 for no auto-close)
+   - hintStyle: 'console', 'popup' or 'label' (plus hintLabel, a Text Gizmo)
+   - useFocus: optional - turn on for doors whose trigger zones overlap, so
+     only the door a player aims at reacts (plus focusHighlight, an outline)
+   - autoOpen: optional - open for anyone who walks into the trigger zone
+   - autoCloseDelay: 5.0 (seconds after the zone empties, or 0 for no auto-close)
+   - requireKeycard: optional - players need an object tagged keycardTag
+     ("keycard") in hand, or one they own
+   - allowedPlayers: optional, e.g. "Sam, Alex" to let only them through
+   - persistenceKey: optional, e.g. "Doors:frontDoor" to keep the door's
+     state across restarts (create the variable group in the Variables panel first)
 
 STEP 5: TEST YOUR DOOR
 1. Save and build your world (Ctrl+B)
@@ -599,7 +1335,6 @@ WHEN PLAYER INTERACTS:
 🔍 Detected PlayerName as: vr
 💡 PlayerName: Grab the door handle to open
 🥽 VR user PlayerName grabbed the door handle
-🎮 Showing VR feedback for PlayerName
 🚪 Opening door...
 ✅ Door opened successfully
 ⏱️ Door will auto-close in 5 seconds
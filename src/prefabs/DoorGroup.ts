@@ -0,0 +1,343 @@
+import * as hz from 'horizon/core';
+import { ActionSubscription } from '../inputMapper';
+import { localization } from '../localization';
+import { DoorState, DoorStateChange, DoorStateChangedEvent, UniversalDoor } from './Door';
+
+/**
+ * ========================================
+ * DOOR GROUP - LINKED DOORS AND AIRLOCKS
+ * ========================================
+ *
+ * WHAT IT DOES:
+ * Makes several UniversalDoors act as one group:
+ * - linked: opening or closing any door in the group opens or closes the rest
+ *   (double doors built from two separate doors, gates on both sides of a room)
+ * - interlocks: a door can't open until other doors are closed. Turn on
+ *   airlock to interlock every door with every other, so only one is ever open
+ * - group commands: openAll(), closeAll(), lockAll() and unlockAll() - put
+ *   every door in a building in one group (doorTag) for a lockdown switch
+ * - group events: every member's state change, re-sent on the group entity
+ *
+ * Interlocks are access policies on the doors, so a player who tries a blocked
+ * door is told why, the same way as for a keycard door.
+ *
+ * HOW TO USE:
+ * 1. Set up your doors as usual
+ * 2. Create an Empty Object (e.g. "Airlock") and attach this script
+ * 3. Drag up to four doors into door1-door4, and/or set doorTag to pick up
+ *    every door object with that tag
+ * 4. Turn on linked or airlock as needed
+ *
+ * EXAMPLE:
+ * ```
+ * // Lock the whole building from an alarm button
+ * const building = this.props.buildingDoors.getComponents().find((c) => c instanceof DoorGroup) as DoorGroup;
+ * building.lockAll('Lockdown in progress');
+ *
+ * // Door B waits for door A, but not the other way round
+ * group.addInterlock(doorB, [doorA]);
+ *
+ * this.connectLocalEvent(building.entity, DoorGroupChangedEvent, ({ door, to }) => {
+ *     console.log(`${door.name.get()} is now ${to}`);
+ * });
+ * ```
+ *
+ * The group acts on the doors' server copies - keep it on a server-owned object.
+ */
+
+// One member's state change, as re-sent on the group entity
+export interface DoorGroupChange extends DoorStateChange {
+    group: hz.Entity;
+}
+
+// Sent on the group entity every time one of its doors changes state
+export const DoorGroupChangedEvent = new hz.LocalEvent<DoorGroupChange>('DoorGroup.changed');
+
+// Group-wide changes for Code Blocks - listen for these on the group object
+export const DoorGroupCodeBlockEvents = {
+    opened: new hz.CodeBlockEvent<[]>('doorGroupOpened', []),        // The first door starts to open
+    closed: new hz.CodeBlockEvent<[]>('doorGroupClosed', []),        // The last open door has shut
+    locked: new hz.CodeBlockEvent<[]>('doorGroupLocked', []),        // lockAll()
+    unlocked: new hz.CodeBlockEvent<[]>('doorGroupUnlocked', []),    // unlockAll()
+};
+
+// States a door can't be walked through in
+const SHUT_STATES: DoorState[] = ['closed', 'locked'];
+
+export class DoorGroup extends hz.Component<typeof DoorGroup> {
+
+    // ========================================
+    // CONFIGURATION PROPERTIES (Visible in Editor)
+    // ========================================
+    static propsDefinition = {
+        door1: {
+            type: hz.PropTypes.Entity,
+            description: "A door object (with the UniversalDoor script) in this group"
+        },
+        door2: {
+            type: hz.PropTypes.Entity,
+            description: "Another door in this group"
+        },
+        door3: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: another door in this group"
+        },
+        door4: {
+            type: hz.PropTypes.Entity,
+            description: "Optional: another door in this group"
+        },
+        doorTag: {
+            type: hz.PropTypes.String,
+            default: '',
+            description: "Optional: every door object with this tag joins the group, e.g. 'building' for lockdowns"
+        },
+        linked: {
+            type: hz.PropTypes.Boolean,
+            default: false,
+            description: "Doors open and close together"
+        },
+        airlock: {
+            type: hz.PropTypes.Boolean,
+            default: false,
+            description: "Only one door may be open at a time - each waits for the others to close"
+        },
+        interlockReason: {
+            type: hz.PropTypes.String,
+            default: 'door.interlock',
+            description: "What players are told when an interlock keeps a door shut - a message ID or plain text"
+        }
+    };
+
+    // ========================================
+    // INTERNAL STATE VARIABLES
+    // ========================================
+
+    // Every door in the group, in the order they joined
+    private doors: UniversalDoor[] = [];
+
+    // Door -> the doors that must be shut before it may open (see addInterlock)
+    private interlocks = new Map<UniversalDoor, Set<UniversalDoor>>();
+
+    // Our access policies and state listeners on each door, dropped when the group is disposed
+    private doorSubscriptions = new Map<UniversalDoor, Array<ActionSubscription | hz.EventSubscription>>();
+
+    // Whether any door was open after the last change - drives doorGroupOpened/Closed
+    private wasAnyOpen = false;
+
+    // ========================================
+    // INITIALIZATION METHODS
+    // ========================================
+
+    /**
+     * start() - Doors set themselves up in preStart(), so they're ready by now
+     */
+    start() {
+        const entities = [this.props.door1, this.props.door2, this.props.door3, this.props.door4]
+            .filter((entity): entity is hz.Entity => !!entity);
+        if (this.props.doorTag) {
+            entities.push(...this.world.getEntitiesWithTags([this.props.doorTag]));
+        }
+
+        for (const entity of entities) {
+            const door = this.findDoor(entity);
+            if (door) {
+                this.addDoor(door);
+            } else {
+                console.warn(`⚠️ Door Group: ${entity.name.get()} has no UniversalDoor script - skipping it`);
+            }
+        }
+
+        console.log(`🚪 Door Group ready with ${this.doors.length} doors${this.props.airlock ? ' (airlock)' : ''}`);
+    }
+
+    /**
+     * dispose() - Lets the doors go back to working on their own
+     */
+    dispose() {
+        [...this.doors].forEach((door) => this.removeDoor(door));
+    }
+
+    /**
+     * The UniversalDoor script on a door object, if it has one
+     */
+    private findDoor(entity: hz.Entity): UniversalDoor | null {
+        for (const component of entity.getComponents()) {
+            if (component instanceof UniversalDoor) {
+                return component;
+            }
+        }
+        return null;
+    }
+
+    // ========================================
+    // MEMBERSHIP
+    // ========================================
+
+    /**
+     * Adds a door to the group (doors from the props are added for you)
+     */
+    public addDoor(door: UniversalDoor) {
+        if (this.doors.includes(door)) return;
+        this.doors.push(door);
+
+        this.doorSubscriptions.set(door, [
+            door.addAccessPolicy((context) => this.getInterlockReason(door, context.player)),
+            this.connectLocalEvent(door.entity, DoorStateChangedEvent, (change) => this.onDoorChanged(door, change))
+        ]);
+    }
+
+    /**
+     * Takes a door out of the group, along with its interlocks
+     */
+    public removeDoor(door: UniversalDoor) {
+        this.doorSubscriptions.get(door)?.forEach((subscription) => subscription.disconnect());
+        this.doorSubscriptions.delete(door);
+        this.doors = this.doors.filter((entry) => entry !== door);
+
+        this.interlocks.delete(door);
+        this.interlocks.forEach((blockers) => blockers.delete(door));
+    }
+
+    /**
+     * Gets the doors in the group
+     */
+    public getDoors(): UniversalDoor[] {
+        return [...this.doors];
+    }
+
+    // ========================================
+    // INTERLOCKS
+    // ========================================
+
+    /**
+     * Keeps `door` shut until every door in `mustBeClosed` is closed (or locked)
+     * @returns A subscription - call disconnect() to remove the rule
+     */
+    public addInterlock(door: UniversalDoor, mustBeClosed: UniversalDoor[]): ActionSubscription {
+        this.addDoor(door);
+        mustBeClosed.forEach((other) => this.addDoor(other));
+
+        const blockers = this.interlocks.get(door) ?? new Set<UniversalDoor>();
+        const added = mustBeClosed.filter((other) => other !== door && !blockers.has(other));
+        added.forEach((other) => blockers.add(other));
+        this.interlocks.set(door, blockers);
+
+        return {
+            disconnect: () => added.forEach((other) => this.interlocks.get(door)?.delete(other))
+        };
+    }
+
+    /**
+     * True if an interlock is keeping `door` shut right now
+     */
+    public isBlocked(door: UniversalDoor): boolean {
+        return this.getBlockers(door).some((other) => !SHUT_STATES.includes(other.getState()));
+    }
+
+    // The doors `door` waits for - every other door in an airlock
+    private getBlockers(door: UniversalDoor): UniversalDoor[] {
+        const rules = [...(this.interlocks.get(door) ?? [])];
+        if (!this.props.airlock) return rules;
+        return this.doors.filter((other) => other !== door);
+    }
+
+    // Access policy: turns players away while an interlock holds the door shut -
+    // doors only ask it when opening, so a door left open can always be closed
+    private getInterlockReason(door: UniversalDoor, player: hz.Player): string | void {
+        if (this.isBlocked(door)) {
+            return localization.localize(player, this.props.interlockReason);
+        }
+    }
+
+    // ========================================
+    // GROUP COMMANDS
+    // ========================================
+
+    /**
+     * Opens every door its interlocks allow - in an airlock that's the first closed door
+     * Locked doors stay shut
+     */
+    public openAll() {
+        for (const door of this.doors) {
+            if (!this.isBlocked(door)) door.forceDoorOpen();
+        }
+    }
+
+    /**
+     * Closes every door
+     */
+    public closeAll() {
+        this.doors.forEach((door) => door.forceDoorClose());
+    }
+
+    /**
+     * Locks every door - open ones close first and lock when they shut
+     * @param reason - Optional: what players are told when they try a door - a message ID or plain text
+     */
+    public lockAll(reason = 'door.locked') {
+        this.doors.forEach((door) => door.lock(reason));
+        this.sendCodeBlockEvent(this.entity, DoorGroupCodeBlockEvents.locked);
+        console.log(`🔒 Door Group: Locked ${this.doors.length} doors - ${localization.localize(localization.fallbackLocale, reason)}`);
+    }
+
+    /**
+     * Unlocks every door, leaving them closed
+     */
+    public unlockAll() {
+        this.doors.forEach((door) => door.unlock());
+        this.sendCodeBlockEvent(this.entity, DoorGroupCodeBlockEvents.unlocked);
+        console.log(`🔓 Door Group: Unlocked ${this.doors.length} doors`);
+    }
+
+    /**
+     * True if any door in the group is open or on its way
+     */
+    public isAnyOpen(): boolean {
+        return this.doors.some((door) => !SHUT_STATES.includes(door.getState()));
+    }
+
+    // ========================================
+    // MEMBER EVENTS
+    // ========================================
+
+    /**
+     * Re-sends a member's change on the group, and moves linked doors with it
+     */
+    private onDoorChanged(door: UniversalDoor, change: DoorStateChange) {
+        this.sendLocalEvent(this.entity, DoorGroupChangedEvent, { ...change, group: this.entity });
+
+        if (this.props.linked && this.isServer()) {
+            this.followLinkedDoor(door, change.to);
+        }
+
+        const anyOpen = this.isAnyOpen();
+        if (anyOpen !== this.wasAnyOpen) {
+            this.wasAnyOpen = anyOpen;
+            this.sendCodeBlockEvent(this.entity, anyOpen ? DoorGroupCodeBlockEvents.opened : DoorGroupCodeBlockEvents.closed);
+        }
+    }
+
+    /**
+     * Linked groups: the other doors follow a door that starts to open or close
+     */
+    private followLinkedDoor(leader: UniversalDoor, to: DoorState) {
+        for (const door of this.doors) {
+            if (door === leader) continue;
+
+            if (to === 'opening' && !this.isBlocked(door)) {
+                door.forceDoorOpen();
+            } else if (to === 'closing') {
+                door.forceDoorClose();
+            }
+        }
+    }
+
+    /**
+     * True when this copy of the script runs on the server, where the doors own their state
+     */
+    private isServer(): boolean {
+        return this.world.getLocalPlayer().id === this.world.getServerPlayer().id;
+    }
+}
+
+hz.Component.register(DoorGroup);
@@ -0,0 +1,295 @@
+import * as hz from 'horizon/core';
+
+/**
+ * ========================================
+ * TWEENS - SMOOTH ANIMATION FOR ENTITIES
+ * ========================================
+ *
+ * WHAT IT DOES:
+ * Animates numbers, vectors and rotations from one value to another over time,
+ * with an easing curve. Rotations use slerp, so they take the short way round
+ * and never squash mid-turn. Updates run from the world's update loop, one step
+ * per frame, and stop listening to it when nothing is animating.
+ *
+ * HOW TO USE:
+ * Give your component a Tweener and start tweens from it:
+ * ```
+ * private tweens = new Tweener(this);
+ *
+ * const tween = this.tweens.rotation(this.entity, openRotation, { duration: 0.8, easing: 'easeInOutCubic' });
+ * tween.reverse();                    // Head back from wherever it is now
+ * tween.cancel();                     // Stop where it is
+ * const status = await tween.finished; // 'completed' or 'cancelled'
+ * ```
+ *
+ * Call tweens.cancelAll() from your component's dispose().
+ *
+ * EXAMPLE:
+ * ```
+ * // Pulse a button when pressed
+ * await this.tweens.scale(button, new hz.Vec3(1.2, 1.2, 1.2), { duration: 0.1, easing: 'easeOutQuad' }).finished;
+ * await this.tweens.scale(button, hz.Vec3.one, { duration: 0.2, easing: 'easeOutBack' }).finished;
+ * ```
+ */
+
+// ========================================
+// EASING CURVES
+// ========================================
+
+// Maps linear progress (0-1) to eased progress - 0 and 1 must map to themselves
+export type EasingFunction = (t: number) => number;
+
+export const Easing = {
+    linear: (t: number) => t,
+
+    easeInQuad: (t: number) => t * t,
+    easeOutQuad: (t: number) => 1 - (1 - t) * (1 - t),
+    easeInOutQuad: (t: number) => t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2,
+
+    easeInCubic: (t: number) => t * t * t,
+    easeOutCubic: (t: number) => 1 - Math.pow(1 - t, 3),
+    easeInOutCubic: (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+
+    easeInOutSine: (t: number) => -(Math.cos(Math.PI * t) - 1) / 2,
+
+    // Overshoots a little, then settles - good for buttons and pop-ups
+    easeOutBack: (t: number) => {
+        const overshoot = 1.70158;
+        return 1 + (overshoot + 1) * Math.pow(t - 1, 3) + overshoot * Math.pow(t - 1, 2);
+    },
+
+    // Bounces against the end value like a dropped object
+    easeOutBounce: (t: number) => {
+        const n = 7.5625;
+        const d = 2.75;
+        if (t < 1 / d) return n * t * t;
+        if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+        if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+        return n * (t -= 2.625 / d) * t + 0.984375;
+    },
+} satisfies Record<string, EasingFunction>;
+
+export type EasingName = keyof typeof Easing;
+
+// ========================================
+// TWEEN
+// ========================================
+
+// Blends two values - amount 0 gives `from`, 1 gives `to`
+export type Interpolator<T> = (from: T, to: T, amount: number) => T;
+
+export const lerpNumber: Interpolator<number> = (from, to, amount) => from + (to - from) * amount;
+export const lerpVec3: Interpolator<hz.Vec3> = (from, to, amount) => hz.Vec3.lerp(from, to, amount);
+export const slerpRotation: Interpolator<hz.Quaternion> = (from, to, amount) => hz.Quaternion.slerp(from, to, amount);
+
+export interface TweenOptions {
+    duration: number;                       // Seconds
+    easing?: EasingName | EasingFunction;   // Default: 'easeInOutQuad'
+    delay?: number;                         // Seconds to wait before moving
+}
+
+export type TweenStatus = 'running' | 'completed' | 'cancelled';
+
+export class Tween<T> {
+    private elapsed = 0;
+    private delayLeft: number;
+    private direction: 1 | -1 = 1;
+    private readonly duration: number;
+    private readonly ease: EasingFunction;
+    private currentStatus: TweenStatus = 'running';
+    private resolveFinished!: (status: TweenStatus) => void;
+
+    /**
+     * Resolves when the tween stops - 'completed' at either end (reversed
+     * tweens complete back at `from`), 'cancelled' if cancel() was called
+     */
+    readonly finished: Promise<TweenStatus>;
+
+    constructor(
+        private readonly from: T,
+        private readonly to: T,
+        private readonly interpolate: Interpolator<T>,
+        private readonly apply: (value: T) => void,
+        options: TweenOptions
+    ) {
+        this.duration = Math.max(0, options.duration);
+        this.delayLeft = Math.max(0, options.delay ?? 0);
+        this.ease = typeof options.easing === 'function' ? options.easing : Easing[options.easing ?? 'easeInOutQuad'];
+        this.finished = new Promise((resolve) => this.resolveFinished = resolve);
+    }
+
+    get status(): TweenStatus {
+        return this.currentStatus;
+    }
+
+    // Linear time progress, 0 at `from` and 1 at `to`
+    get progress(): number {
+        return this.duration > 0 ? this.elapsed / this.duration : (this.direction > 0 ? 1 : 0);
+    }
+
+    get isReversed(): boolean {
+        return this.direction < 0;
+    }
+
+    // The value at the current progress
+    get value(): T {
+        return this.interpolate(this.from, this.to, this.ease(this.progress));
+    }
+
+    /**
+     * Advances the tween and applies the new value
+     * Called by the Tweener every frame - only call it yourself if you drive tweens manually
+     */
+    update(deltaTime: number) {
+        if (this.currentStatus !== 'running') return;
+
+        if (this.delayLeft > 0) {
+            this.delayLeft -= deltaTime;
+            if (this.delayLeft > 0) return;
+            deltaTime = -this.delayLeft;
+            this.delayLeft = 0;
+        }
+
+        this.elapsed = Math.min(this.duration, Math.max(0, this.elapsed + deltaTime * this.direction));
+        this.apply(this.value);
+
+        const atEnd = this.direction > 0 ? this.elapsed >= this.duration : this.elapsed <= 0;
+        if (atEnd) {
+            this.finish('completed');
+        }
+    }
+
+    /**
+     * Turns the tween around from its current pose - it takes as long to get
+     * back as it took to get here. Only running tweens can be reversed; start
+     * a new tween to play a finished one backwards
+     */
+    reverse(): this {
+        if (this.currentStatus === 'running') {
+            this.direction = this.direction > 0 ? -1 : 1;
+        }
+        return this;
+    }
+
+    /**
+     * Stops the tween where it is
+     */
+    cancel() {
+        if (this.currentStatus === 'running') {
+            this.finish('cancelled');
+        }
+    }
+
+    private finish(status: TweenStatus) {
+        this.currentStatus = status;
+        this.resolveFinished(status);
+    }
+}
+
+// ========================================
+// TWEENER
+// ========================================
+
+export class Tweener {
+    private tweens = new Set<Tween<any>>();
+
+    // Our World.onUpdate listener - only connected while tweens are running
+    private updateSubscription: hz.EventSubscription | null = null;
+
+    /**
+     * @param component - The component whose update loop drives these tweens
+     */
+    constructor(private readonly component: hz.Component) {}
+
+    // How many tweens are running
+    get activeCount(): number {
+        return this.tweens.size;
+    }
+
+    // ========================================
+    // STARTING TWEENS
+    // ========================================
+
+    /**
+     * Tweens any value you can interpolate - the others are shortcuts for this
+     * @param onUpdate - Receives the new value every frame
+     */
+    start<T>(from: T, to: T, interpolate: Interpolator<T>, onUpdate: (value: T) => void, options: TweenOptions): Tween<T> {
+        const tween = new Tween(from, to, interpolate, onUpdate, options);
+        this.tweens.add(tween);
+        tween.update(0);        // Apply the starting value now (and finish zero-length tweens)
+        this.refreshUpdateLoop();
+        return tween;
+    }
+
+    number(from: number, to: number, onUpdate: (value: number) => void, options: TweenOptions): Tween<number> {
+        return this.start(from, to, lerpNumber, onUpdate, options);
+    }
+
+    vec3(from: hz.Vec3, to: hz.Vec3, onUpdate: (value: hz.Vec3) => void, options: TweenOptions): Tween<hz.Vec3> {
+        return this.start(from, to, lerpVec3, onUpdate, options);
+    }
+
+    quaternion(from: hz.Quaternion, to: hz.Quaternion, onUpdate: (value: hz.Quaternion) => void, options: TweenOptions): Tween<hz.Quaternion> {
+        return this.start(from, to, slerpRotation, onUpdate, options);
+    }
+
+    // Moves an entity from where it is now to `to`
+    position(entity: hz.Entity, to: hz.Vec3, options: TweenOptions): Tween<hz.Vec3> {
+        return this.vec3(entity.position.get(), to, (value) => entity.position.set(value), options);
+    }
+
+    // Turns an entity from its current rotation to `to`
+    rotation(entity: hz.Entity, to: hz.Quaternion, options: TweenOptions): Tween<hz.Quaternion> {
+        return this.quaternion(entity.rotation.get(), to, (value) => entity.rotation.set(value), options);
+    }
+
+    // Resizes an entity from its current scale to `to`
+    scale(entity: hz.Entity, to: hz.Vec3, options: TweenOptions): Tween<hz.Vec3> {
+        return this.vec3(entity.scale.get(), to, (value) => entity.scale.set(value), options);
+    }
+
+    // ========================================
+    // UPDATE LOOP
+    // ========================================
+
+    /**
+     * Advances every running tween by one frame
+     */
+    update(deltaTime: number) {
+        for (const tween of [...this.tweens]) {
+            try {
+                tween.update(deltaTime);
+            } catch (error) {
+                console.error('❌ Error in tween update:', error);
+                tween.cancel();
+            }
+        }
+        this.refreshUpdateLoop();
+    }
+
+    /**
+     * Stops every running tween where it is
+     */
+    cancelAll() {
+        this.tweens.forEach((tween) => tween.cancel());
+        this.refreshUpdateLoop();
+    }
+
+    // Drops finished tweens, and listens to World.onUpdate only while some are left
+    private refreshUpdateLoop() {
+        for (const tween of this.tweens) {
+            if (tween.status !== 'running') this.tweens.delete(tween);
+        }
+
+        if (this.tweens.size > 0 && !this.updateSubscription) {
+            this.updateSubscription = this.component.connectLocalBroadcastEvent(
+                hz.World.onUpdate,
+                ({ deltaTime }) => this.update(deltaTime)
+            );
+        } else if (this.tweens.size === 0 && this.updateSubscription) {
+            this.updateSubscription.disconnect();
+            this.updateSubscription = null;
+        }
+    }
+}
@@ -0,0 +1,30 @@
+import { botDetector, categoryDetector, horizonDeviceDetector } from '../src/detectors';
+import { TestWorld } from './harness';
+
+describe('detectors', () => {
+    let sim: TestWorld;
+
+    beforeEach(() => {
+        sim = new TestWorld();
+    });
+
+    it('horizonDeviceDetector maps Horizon device types', () => {
+        expect(horizonDeviceDetector(sim.createPlayer('vr'))).toEqual({ device: 'vr' });
+        expect(horizonDeviceDetector(sim.createPlayer('mobile'))).toEqual({ device: 'mobile' });
+        expect(horizonDeviceDetector(sim.createPlayer('desktop'))).toEqual({ device: 'desktop' });
+    });
+
+    it('botDetector names the npc category and an optional device', () => {
+        const bot = sim.createPlayer('vr');
+        const human = sim.createPlayer('vr');
+
+        expect(botDetector((player) => player === bot, 'desktop')(bot)).toEqual({ category: 'npc', device: 'desktop' });
+        expect(botDetector((player) => player === bot)(human)).toBeUndefined();
+    });
+
+    it('categoryDetector only names the category', () => {
+        const player = sim.createPlayer('mobile', 'spectator');
+
+        expect(categoryDetector('spectator', (p) => p.name.get() === 'spectator')(player)).toEqual({ category: 'spectator' });
+    });
+});
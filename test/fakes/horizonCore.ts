@@ -0,0 +1,762 @@
+/**
+ * ========================================
+ * HEADLESS STAND-IN FOR 'horizon/core'
+ * ========================================
+ *
+ * WHAT IT DOES:
+ * Implements the small slice of the Horizon Worlds scripting API that our
+ * scripts use, so InputMapper and the prefabs can run under Jest without a world.
+ *
+ * HOW IT'S WIRED:
+ * - Jest maps `horizon/core` to this file (see "jest" in package.json)
+ * - tsconfig.json maps it too, so the type-check sees the same surface
+ * - Tests drive it through the helpers in test/harness.ts
+ *
+ * Only add what the scripts actually touch - this is not a full emulator.
+ */
+
+// ========================================
+// MATH TYPES
+// ========================================
+
+export class Vec3 {
+    constructor(public x: number, public y: number, public z: number) {}
+
+    static get zero() {
+        return new Vec3(0, 0, 0);
+    }
+
+    add(other: Vec3): Vec3 {
+        return new Vec3(this.x + other.x, this.y + other.y, this.z + other.z);
+    }
+
+    sub(other: Vec3): Vec3 {
+        return new Vec3(this.x - other.x, this.y - other.y, this.z - other.z);
+    }
+
+    mul(scalar: number): Vec3 {
+        return new Vec3(this.x * scalar, this.y * scalar, this.z * scalar);
+    }
+
+    magnitude(): number {
+        return Math.sqrt(this.x * this.x + this.y * this.y + this.z * this.z);
+    }
+
+    distance(other: Vec3): number {
+        return this.sub(other).magnitude();
+    }
+
+    dot(other: Vec3): number {
+        return this.x * other.x + this.y * other.y + this.z * other.z;
+    }
+
+    cross(other: Vec3): Vec3 {
+        return new Vec3(
+            this.y * other.z - this.z * other.y,
+            this.z * other.x - this.x * other.z,
+            this.x * other.y - this.y * other.x
+        );
+    }
+
+    normalize(): Vec3 {
+        const length = this.magnitude();
+        return length > 0 ? this.mul(1 / length) : Vec3.zero;
+    }
+
+    clone(): Vec3 {
+        return new Vec3(this.x, this.y, this.z);
+    }
+
+    static lerp(from: Vec3, to: Vec3, amount: number): Vec3 {
+        return from.add(to.sub(from).mul(amount));
+    }
+}
+
+export enum EulerOrder {
+    YXZ = 'YXZ',
+}
+
+const DEG_TO_RAD = Math.PI / 180;
+
+export class Quaternion {
+    constructor(public x: number, public y: number, public z: number, public w: number) {}
+
+    static get one() {
+        return new Quaternion(0, 0, 0, 1);
+    }
+
+    /** Euler angles in degrees - only Horizon's default YXZ order is modelled */
+    static fromEuler(euler: Vec3, order: EulerOrder = EulerOrder.YXZ): Quaternion {
+        const [c1, c2, c3] = [euler.x, euler.y, euler.z].map((angle) => Math.cos(angle * DEG_TO_RAD / 2));
+        const [s1, s2, s3] = [euler.x, euler.y, euler.z].map((angle) => Math.sin(angle * DEG_TO_RAD / 2));
+        return new Quaternion(
+            s1 * c2 * c3 + c1 * s2 * s3,
+            c1 * s2 * c3 - s1 * c2 * s3,
+            c1 * c2 * s3 - s1 * s2 * c3,
+            c1 * c2 * c3 + s1 * s2 * s3
+        );
+    }
+
+    /** `angle` in radians, around a (normalized) axis */
+    static fromAxisAngle(axis: Vec3, angle: number): Quaternion {
+        const unit = axis.normalize();
+        const sin = Math.sin(angle / 2);
+        return new Quaternion(unit.x * sin, unit.y * sin, unit.z * sin, Math.cos(angle / 2));
+    }
+
+    static slerp(from: Quaternion, to: Quaternion, amount: number): Quaternion {
+        let cos = from.x * to.x + from.y * to.y + from.z * to.z + from.w * to.w;
+        // Take the short way round
+        const sign = cos < 0 ? -1 : 1;
+        cos *= sign;
+
+        let fromWeight = 1 - amount;
+        let toWeight = amount * sign;
+        if (cos < 0.9999) {
+            const angle = Math.acos(cos);
+            const sin = Math.sin(angle);
+            fromWeight = Math.sin((1 - amount) * angle) / sin;
+            toWeight = Math.sin(amount * angle) / sin * sign;
+        }
+
+        return new Quaternion(
+            from.x * fromWeight + to.x * toWeight,
+            from.y * fromWeight + to.y * toWeight,
+            from.z * fromWeight + to.z * toWeight,
+            from.w * fromWeight + to.w * toWeight
+        ).normalize();
+    }
+
+    /** Applies `other` after this rotation, in this rotation's local space */
+    mul(other: Quaternion): Quaternion {
+        return new Quaternion(
+            this.w * other.x + this.x * other.w + this.y * other.z - this.z * other.y,
+            this.w * other.y - this.x * other.z + this.y * other.w + this.z * other.x,
+            this.w * other.z + this.x * other.y - this.y * other.x + this.z * other.w,
+            this.w * other.w - this.x * other.x - this.y * other.y - this.z * other.z
+        );
+    }
+
+    /** Rotates a vector by this rotation */
+    mulVec3(vector: Vec3): Vec3 {
+        const rotated = this.mul(new Quaternion(vector.x, vector.y, vector.z, 0)).mul(this.inverse());
+        return new Vec3(rotated.x, rotated.y, rotated.z);
+    }
+
+    inverse(): Quaternion {
+        const lengthSquared = this.x * this.x + this.y * this.y + this.z * this.z + this.w * this.w || 1;
+        return new Quaternion(-this.x / lengthSquared, -this.y / lengthSquared, -this.z / lengthSquared, this.w / lengthSquared);
+    }
+
+    normalize(): Quaternion {
+        const length = Math.hypot(this.x, this.y, this.z, this.w) || 1;
+        return new Quaternion(this.x / length, this.y / length, this.z / length, this.w / length);
+    }
+
+    /** Euler angles in degrees, YXZ order */
+    toEuler(order: EulerOrder = EulerOrder.YXZ): Vec3 {
+        const { x, y, z, w } = this;
+        const m13 = 2 * (x * z + w * y);
+        const m23 = 2 * (y * z - w * x);
+        const m33 = 1 - 2 * (x * x + y * y);
+        const m11 = 1 - 2 * (y * y + z * z);
+        const m21 = 2 * (x * y + w * z);
+        const m22 = 1 - 2 * (x * x + z * z);
+        const m31 = 2 * (x * z - w * y);
+
+        const ex = Math.asin(-Math.max(-1, Math.min(1, m23)));
+        const gimbalLocked = Math.abs(m23) >= 0.9999999;
+        const ey = gimbalLocked ? Math.atan2(-m31, m11) : Math.atan2(m13, m33);
+        const ez = gimbalLocked ? 0 : Math.atan2(m21, m22);
+        return new Vec3(ex / DEG_TO_RAD, ey / DEG_TO_RAD, ez / DEG_TO_RAD);
+    }
+
+    clone(): Quaternion {
+        return new Quaternion(this.x, this.y, this.z, this.w);
+    }
+}
+
+// ========================================
+// PROPERTIES
+// ========================================
+
+export class ReadableHorizonProperty<T> {
+    constructor(protected value: T) {}
+
+    get(): T {
+        return this.value;
+    }
+}
+
+export class HorizonProperty<T> extends ReadableHorizonProperty<T> {
+    set(value: T): void {
+        this.value = value;
+    }
+}
+
+export const PropTypes = {
+    Number: 'number',
+    String: 'string',
+    Boolean: 'boolean',
+    Vec3: 'Vec3',
+    Entity: 'Entity',
+} as const;
+
+type PropTypeValues = {
+    number: number;
+    string: string;
+    boolean: boolean;
+    Vec3: Vec3;
+    Entity: Entity | undefined;
+};
+
+type PropDefinition = {
+    type: keyof PropTypeValues;
+    default?: unknown;
+    description?: string;
+};
+
+type PropsFromDefinitions<T> = {
+    [K in keyof T]: T[K] extends { type: infer P }
+        ? P extends keyof PropTypeValues ? PropTypeValues[P] : never
+        : never;
+};
+
+// ========================================
+// PLAYERS AND ENTITIES
+// ========================================
+
+export enum PlayerDeviceType {
+    VR = 'VR',
+    Mobile = 'Mobile',
+    Desktop = 'Desktop',
+}
+
+export enum HapticStrength {
+    VeryLight = 'VeryLight',
+    Light = 'Light',
+    Medium = 'Medium',
+    Strong = 'Strong',
+}
+
+export enum HapticSharpness {
+    Sharp = 'Sharp',
+    Coarse = 'Coarse',
+    Soft = 'Soft',
+}
+
+export type HapticPulse = { duration: number; strength: HapticStrength; sharpness: HapticSharpness };
+
+export class PlayerBodyPart {
+    readonly position = new HorizonProperty(Vec3.zero);
+    readonly forward = new HorizonProperty(new Vec3(0, 0, 1));
+}
+
+export class PlayerHand extends PlayerBodyPart {
+    /** @internal Every pulse played, oldest first */
+    readonly haptics: HapticPulse[] = [];
+
+    playHaptics(duration: number, strength: HapticStrength, sharpness: HapticSharpness): void {
+        this.haptics.push({ duration, strength, sharpness });
+    }
+}
+
+// The id Horizon gives the server player - also the default owner of every entity
+const SERVER_PLAYER_ID = -1;
+
+export class Player {
+    readonly name: ReadableHorizonProperty<string>;
+    readonly deviceType: ReadableHorizonProperty<PlayerDeviceType>;
+    readonly position = new HorizonProperty(Vec3.zero);
+    readonly head = new PlayerBodyPart();
+    readonly leftHand = new PlayerHand();
+    readonly rightHand = new PlayerHand();
+
+    constructor(public readonly id: number, name: string, deviceType: PlayerDeviceType) {
+        this.name = new ReadableHorizonProperty(name);
+        // Writable underneath so the harness can simulate device switches
+        this.deviceType = new HorizonProperty(deviceType);
+    }
+}
+
+export class EntityTagsProperty extends HorizonProperty<string[]> {
+    contains(tag: string): boolean {
+        return this.value.includes(tag);
+    }
+
+    add(tag: string): void {
+        if (!this.contains(tag)) this.value = [...this.value, tag];
+    }
+
+    remove(tag: string): void {
+        this.value = this.value.filter((existing) => existing !== tag);
+    }
+}
+
+export enum PlayerVisibilityMode {
+    VisibleTo = 'VisibleTo',
+    HiddenFrom = 'HiddenFrom',
+}
+
+export type PlayerVisibility = { players: Player[]; mode: PlayerVisibilityMode };
+
+export class Entity {
+    readonly name: HorizonProperty<string>;
+    readonly position = new HorizonProperty(Vec3.zero);
+    readonly rotation = new HorizonProperty(Quaternion.one);
+    readonly scale = new HorizonProperty(new Vec3(1, 1, 1));
+    readonly tags = new EntityTagsProperty([]);
+    readonly owner = new HorizonProperty(new Player(SERVER_PLAYER_ID, '', PlayerDeviceType.Desktop));
+
+    /** @internal Components attached through the test harness */
+    readonly attachedComponents: Component[] = [];
+
+    constructor(public readonly id: bigint, name: string) {
+        this.name = new HorizonProperty(name);
+    }
+
+    /** @internal Per-player visibility - null when everyone sees the entity */
+    readonly visibility = new HorizonProperty<PlayerVisibility | null>(null);
+
+    /** @internal Backs TextGizmo.text, so every as() view shares it */
+    readonly gizmoText = new HorizonProperty('');
+
+    /** @internal Every AudioGizmo/ParticleGizmo play() call, oldest first */
+    readonly gizmoPlays: GizmoPlay[] = [];
+
+    getComponents(): Component[] {
+        return [...this.attachedComponents];
+    }
+
+    /** Views the entity as a gizmo type - views share all state with the entity */
+    as<T extends Entity>(ctor: new (id: bigint, name: string) => T): T {
+        if (this instanceof ctor) return this;
+        return Object.assign(Object.create(ctor.prototype), this);
+    }
+
+    setVisibilityForPlayers(players: Player[], mode: PlayerVisibilityMode): void {
+        this.visibility.set({ players: [...players], mode });
+    }
+
+    resetVisibilityForPlayers(): void {
+        this.visibility.set(null);
+    }
+}
+
+export type GizmoPlay = { players?: Player[] };
+
+export type AudioOptions = { fade: number; players?: Player[] };
+
+export type ParticleFXPlayOptions = { fromStart?: boolean; players?: Player[]; oneShot?: boolean };
+
+export class AudioGizmo extends Entity {
+    play(options?: AudioOptions): void {
+        this.gizmoPlays.push({ players: options?.players });
+    }
+}
+
+export class ParticleGizmo extends Entity {
+    play(options?: ParticleFXPlayOptions): void {
+        this.gizmoPlays.push({ players: options?.players });
+    }
+}
+
+export class TextGizmo extends Entity {
+    get text(): HorizonProperty<string> {
+        return this.gizmoText;
+    }
+}
+
+// ========================================
+// EVENTS
+// ========================================
+
+export class CodeBlockEvent<TPayload extends unknown[]> {
+    /** Phantom field so payload types stay distinct */
+    protected readonly payload?: TPayload;
+
+    /** `parameters` are the PropTypes Code Blocks see - unused by the fake */
+    constructor(public readonly name: string, public readonly parameters: string[] = []) {}
+}
+
+export const CodeBlockEvents = {
+    OnPlayerEnterWorld: new CodeBlockEvent<[player: Player]>('playerEnterWorld'),
+    OnPlayerExitWorld: new CodeBlockEvent<[player: Player]>('playerExitWorld'),
+    OnPlayerEnterTrigger: new CodeBlockEvent<[player: Player]>('occupied'),
+    OnPlayerExitTrigger: new CodeBlockEvent<[player: Player]>('unoccupied'),
+    OnGrabStart: new CodeBlockEvent<[isRightHand: boolean, player: Player]>('grabStart'),
+    OnGrabEnd: new CodeBlockEvent<[player: Player]>('grabEnd'),
+};
+
+export class NetworkEvent<TPayload> {
+    /** Phantom field so payload types stay distinct */
+    protected readonly payload?: TPayload;
+
+    constructor(public readonly name: string) {}
+}
+
+export class LocalEvent<TPayload> {
+    /** Phantom field so payload types stay distinct */
+    protected readonly payload?: TPayload;
+
+    constructor(public readonly name: string = '') {}
+}
+
+export interface EventSubscription {
+    disconnect(): void;
+}
+
+type NetworkListener = {
+    target: Entity | null;  // null for broadcast listeners
+    event: NetworkEvent<any>;
+    callback: (data: any) => void;
+    owner: Player;          // Local player of the listening script instance
+};
+
+type LocalListener = {
+    target: Entity | null;  // null for broadcast listeners
+    event: LocalEvent<any>;
+    callback: (data: any) => void;
+};
+
+type Listener = {
+    target: Entity;
+    event: CodeBlockEvent<any>;
+    callback: (...args: any[]) => void;
+};
+
+// ========================================
+// PLAYER CONTROLS
+// ========================================
+
+export enum PlayerInputAction {
+    LeftTrigger = 'LeftTrigger',
+    LeftPrimary = 'LeftPrimary',
+    LeftSecondary = 'LeftSecondary',
+    RightTrigger = 'RightTrigger',
+    RightPrimary = 'RightPrimary',
+    RightSecondary = 'RightSecondary',
+    Jump = 'Jump',
+    Crouch = 'Crouch',
+}
+
+export enum ButtonIcon {
+    None = 'None',
+    Interact = 'Interact',
+    Jump = 'Jump',
+}
+
+export class PlayerInput {
+    /** @internal */
+    readonly callbacks: Array<(action: PlayerInputAction, pressed: boolean) => void> = [];
+
+    constructor(
+        public readonly action: PlayerInputAction,
+        /** @internal */ readonly icon: ButtonIcon,
+        /** @internal */ private readonly world: World
+    ) {}
+
+    registerCallback(callback: (action: PlayerInputAction, pressed: boolean) => void): void {
+        this.callbacks.push(callback);
+    }
+
+    disconnect(): void {
+        this.world.localInputs.delete(this);
+    }
+}
+
+export class PlayerControls {
+    /** Connects an input on the local player's device - only meaningful in local scripts */
+    static connectLocalInput(input: PlayerInputAction, icon: ButtonIcon, component: Component): PlayerInput {
+        const playerInput = new PlayerInput(input, icon, component.world);
+        component.world.localInputs.add(playerInput);
+        return playerInput;
+    }
+}
+
+// ========================================
+// PERSISTENT STORAGE
+// ========================================
+
+export class WorldPersistentStorage {
+    /** @internal Saved variables, keyed "group:variable" */
+    readonly values = new Map<string, unknown>();
+
+    fetchWorldVariableAsync<T>(key: string): Promise<T | undefined> {
+        return Promise.resolve(this.values.get(key) as T | undefined);
+    }
+
+    setWorldVariableAcrossAllInstancesAsync<T>(key: string, value: T): Promise<void> {
+        this.values.set(key, value);
+        return Promise.resolve();
+    }
+}
+
+// ========================================
+// UI
+// ========================================
+
+export type Popup = { player: Player; text: string; displayTime: number };
+
+export class WorldUI {
+    /** @internal Every popup shown, oldest first */
+    readonly popups: Popup[] = [];
+
+    showPopupForPlayer(player: Player, text: string, displayTime: number): void {
+        this.popups.push({ player, text, displayTime });
+    }
+}
+
+// ========================================
+// WORLD
+// ========================================
+
+// The fake's frame rate - World.onUpdate fires on a host timer so jest fake timers drive it
+const FRAME_MS = 16;
+
+export class World {
+    /** Fires every frame while anything listens to it */
+    static readonly onUpdate = new LocalEvent<{ deltaTime: number }>('onUpdate');
+
+    /** @internal */
+    readonly listeners = new Set<Listener>();
+    /** @internal */
+    readonly players: Player[] = [];
+    /** @internal */
+    readonly serverPlayer = new Player(SERVER_PLAYER_ID, '', PlayerDeviceType.Desktop);
+    /** @internal Entities created through the test harness */
+    readonly entities: Entity[] = [];
+    /** @internal The player whose device runs local scripts (the server until set) */
+    localPlayer: Player = this.serverPlayer;
+    /** @internal Inputs connected through PlayerControls.connectLocalInput */
+    readonly localInputs = new Set<PlayerInput>();
+    /** @internal Network event listeners from every script instance */
+    readonly networkListeners = new Set<NetworkListener>();
+
+    /** @internal Local broadcast listeners from every script instance */
+    readonly localListeners = new Set<LocalListener>();
+    /** @internal Shared by client views so only one frame loop ever runs */
+    private readonly frameLoop: { handle?: ReturnType<typeof setInterval> } = {};
+
+    readonly persistentStorageWorld = new WorldPersistentStorage();
+
+    readonly ui = new WorldUI();
+
+    /** Entities carrying any of `tags` */
+    getEntitiesWithTags(tags: string[]): Entity[] {
+        return this.entities.filter((entity) => tags.some((tag) => entity.tags.contains(tag)));
+    }
+
+    getPlayers(): Player[] {
+        return [...this.players];
+    }
+
+    getServerPlayer(): Player {
+        return this.serverPlayer;
+    }
+
+    getLocalPlayer(): Player {
+        return this.localPlayer;
+    }
+
+    /**
+     * @internal Delivers a network event - synchronously, unlike the real network
+     * `target` null means broadcast listeners; `players` limits it to instances on those devices
+     */
+    deliverNetworkEvent<T>(target: Entity | null, event: NetworkEvent<T>, data: T, players?: Player[]): void {
+        for (const listener of [...this.networkListeners]) {
+            if (listener.event !== event || listener.target !== target) continue;
+            if (players && !players.some((player) => player.id === listener.owner.id)) continue;
+            listener.callback(data);
+        }
+    }
+
+    /**
+     * @internal Delivers a local event, e.g. one frame of World.onUpdate
+     * `target` null means broadcast listeners
+     */
+    deliverLocalEvent<T>(target: Entity | null, event: LocalEvent<T>, data: T): void {
+        for (const listener of [...this.localListeners]) {
+            if (listener.event === event && listener.target === target) listener.callback(data);
+        }
+    }
+
+    /** @internal Starts or stops the frame loop depending on whether anyone listens */
+    updateFrameLoop(): void {
+        const listening = [...this.localListeners].some((listener) => listener.event === World.onUpdate);
+        if (listening && !this.frameLoop.handle) {
+            this.frameLoop.handle = setInterval(
+                () => this.deliverLocalEvent(null, World.onUpdate, { deltaTime: FRAME_MS / 1000 }),
+                FRAME_MS
+            );
+        } else if (!listening && this.frameLoop.handle) {
+            clearInterval(this.frameLoop.handle);
+            this.frameLoop.handle = undefined;
+        }
+    }
+
+    /** @internal Delivers a code block event to listeners on `target` */
+    dispatch<T extends unknown[]>(target: Entity | null, event: CodeBlockEvent<T>, ...args: T): void {
+        for (const listener of [...this.listeners]) {
+            if (listener.event !== event) continue;
+            if (target && listener.target !== target) continue;
+            listener.callback(...args);
+        }
+    }
+}
+
+// ========================================
+// COMPONENTS
+// ========================================
+
+type ComponentClass = { propsDefinition: Record<string, PropDefinition> };
+
+/**
+ * Timers behave like Horizon's: numeric handles, backed by the host's timers
+ * so tests can drive them with jest fake timers.
+ */
+class AsyncTimers {
+    private nextId = 1;
+    private handles = new Map<number, ReturnType<typeof setTimeout>>();
+
+    setTimeout(callback: () => void, ms: number): number {
+        const id = this.nextId++;
+        this.handles.set(id, setTimeout(() => {
+            this.handles.delete(id);
+            callback();
+        }, ms));
+        return id;
+    }
+
+    clearTimeout(id: number): void {
+        const handle = this.handles.get(id);
+        if (handle !== undefined) {
+            clearTimeout(handle);
+            this.handles.delete(id);
+        }
+    }
+
+    setInterval(callback: () => void, ms: number): number {
+        const id = this.nextId++;
+        this.handles.set(id, setInterval(callback, ms));
+        return id;
+    }
+
+    clearInterval(id: number): void {
+        const handle = this.handles.get(id);
+        if (handle !== undefined) {
+            clearInterval(handle);
+            this.handles.delete(id);
+        }
+    }
+
+    /** @internal Cancels everything, used when a component is disposed */
+    clearAll(): void {
+        this.handles.forEach((handle) => clearTimeout(handle));
+        this.handles.clear();
+    }
+}
+
+export abstract class Component<TComponent extends ComponentClass = any> {
+    static propsDefinition: Record<string, PropDefinition> = {};
+
+    /** @internal Every class passed to Component.register() */
+    static readonly registered: Function[] = [];
+
+    entity!: Entity;
+    world!: World;
+    props!: PropsFromDefinitions<TComponent['propsDefinition']>;
+    readonly async = new AsyncTimers();
+
+    /** @internal Subscriptions owned by this component */
+    readonly subscriptions: EventSubscription[] = [];
+
+    static register(componentClass: Function): void {
+        Component.registered.push(componentClass);
+    }
+
+    preStart(): void {}
+
+    abstract start(): void;
+
+    dispose(): void {}
+
+    connectNetworkEvent<T>(target: Entity, event: NetworkEvent<T>, callback: (data: T) => void): EventSubscription {
+        return this.addNetworkListener({ target, event, callback, owner: this.world.getLocalPlayer() });
+    }
+
+    connectNetworkBroadcastEvent<T>(event: NetworkEvent<T>, callback: (data: T) => void): EventSubscription {
+        return this.addNetworkListener({ target: null, event, callback, owner: this.world.getLocalPlayer() });
+    }
+
+    sendNetworkEvent<T>(target: Entity, event: NetworkEvent<T>, data: T, players?: Player[]): void {
+        this.world.deliverNetworkEvent(target, event, data, players);
+    }
+
+    sendNetworkBroadcastEvent<T>(event: NetworkEvent<T>, data: T, players?: Player[]): void {
+        this.world.deliverNetworkEvent(null, event, data, players);
+    }
+
+    connectLocalEvent<T>(target: Entity, event: LocalEvent<T>, callback: (data: T) => void): EventSubscription {
+        return this.addLocalListener({ target, event, callback });
+    }
+
+    connectLocalBroadcastEvent<T>(event: LocalEvent<T>, callback: (data: T) => void): EventSubscription {
+        return this.addLocalListener({ target: null, event, callback });
+    }
+
+    sendLocalEvent<T>(target: Entity, event: LocalEvent<T>, data: T): void {
+        this.world.deliverLocalEvent(target, event, data);
+    }
+
+    sendLocalBroadcastEvent<T>(event: LocalEvent<T>, data: T): void {
+        this.world.deliverLocalEvent(null, event, data);
+    }
+
+    sendCodeBlockEvent<T extends unknown[]>(target: Entity, event: CodeBlockEvent<T>, ...args: T): void {
+        this.world.dispatch(target, event, ...args);
+    }
+
+    private addLocalListener(listener: LocalListener): EventSubscription {
+        this.world.localListeners.add(listener);
+        this.world.updateFrameLoop();
+
+        const subscription = {
+            disconnect: () => {
+                this.world.localListeners.delete(listener);
+                this.world.updateFrameLoop();
+            },
+        };
+        this.subscriptions.push(subscription);
+        return subscription;
+    }
+
+    private addNetworkListener(listener: NetworkListener): EventSubscription {
+        this.world.networkListeners.add(listener);
+
+        const subscription = {
+            disconnect: () => {
+                this.world.networkListeners.delete(listener);
+            },
+        };
+        this.subscriptions.push(subscription);
+        return subscription;
+    }
+
+    connectCodeBlockEvent<T extends unknown[]>(
+        target: Entity,
+        event: CodeBlockEvent<T>,
+        callback: (...args: T) => void
+    ): EventSubscription {
+        const listener: Listener = { target, event, callback: callback as (...args: any[]) => void };
+        this.world.listeners.add(listener);
+
+        const subscription = {
+            disconnect: () => {
+                this.world.listeners.delete(listener);
+            },
+        };
+        this.subscriptions.push(subscription);
+        return subscription;
+    }
+}
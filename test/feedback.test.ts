@@ -0,0 +1,92 @@
+import * as hz from 'horizon/core';
+import { FeedbackService } from '../src/feedback';
+import { TestWorld } from './harness';
+
+describe('FeedbackService', () => {
+    let sim: TestWorld;
+
+    const createService = (props: Partial<FeedbackService['props']> = {}) =>
+        sim.attach(FeedbackService, sim.createEntity('Feedback_System'), props);
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        sim = new TestWorld();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('pulses the hand that grabbed in VR', () => {
+        const feedback = createService();
+        const player = sim.spawnPlayer('vr');
+
+        feedback.play(player, 'interact', 'vr', { hand: 'left' });
+        feedback.play(player, 'denied', 'vr');
+
+        expect(player.leftHand.haptics).toEqual([{ duration: 40, strength: hz.HapticStrength.Light, sharpness: hz.HapticSharpness.Sharp }]);
+        expect(player.rightHand.haptics).toEqual([{ duration: 150, strength: hz.HapticStrength.Medium, sharpness: hz.HapticSharpness.Sharp }]);
+    });
+
+    it('plays the cue\'s sound and particles for just that player', () => {
+        const interactSound = sim.createEntity('Click');
+        const successSound = sim.createEntity('Chime');
+        const successVfx = sim.createEntity('Sparkles');
+        const feedback = createService({ interactSound, successSound, successVfx });
+        const player = sim.spawnPlayer('desktop');
+
+        feedback.play(player, 'success', 'desktop');
+
+        expect(successSound.gizmoPlays).toEqual([{ players: [player] }]);
+        expect(successVfx.gizmoPlays).toEqual([{ players: [player] }]);
+        expect(interactSound.gizmoPlays).toEqual([]);
+    });
+
+    it('flashes the overlay for mobile players, then hides it again', async () => {
+        const flashOverlay = sim.createEntity('Flash');
+        const feedback = createService({ flashOverlay, flashDuration: 0.2 });
+        const player = sim.spawnPlayer('mobile');
+        expect(flashOverlay.visibility.get()).toEqual({ players: [], mode: hz.PlayerVisibilityMode.VisibleTo });
+
+        feedback.play(player, 'interact', 'mobile');
+        expect(flashOverlay.visibility.get()?.players).toEqual([player]);
+
+        await jest.advanceTimersByTimeAsync(250);
+        expect(flashOverlay.visibility.get()?.players).toEqual([]);
+    });
+
+    it('highlights for desktop players and keeps each player\'s timer separate', async () => {
+        const highlight = sim.createEntity('Glow');
+        const feedback = createService({ highlight, flashDuration: 0.2 });
+        const first = sim.spawnPlayer('desktop');
+        const second = sim.spawnPlayer('desktop');
+
+        feedback.play(first, 'interact', 'desktop');
+        await jest.advanceTimersByTimeAsync(100);
+        feedback.play(second, 'interact', 'desktop');
+        await jest.advanceTimersByTimeAsync(150);
+
+        expect(highlight.visibility.get()?.players).toEqual([second]);
+    });
+
+    it('shows denial messages as toasts, in the player\'s language', () => {
+        const feedback = createService({ toastDuration: 3 });
+        const player = sim.spawnPlayer('desktop');
+
+        feedback.play(player, 'denied', 'desktop', { message: 'door.locked' });
+        feedback.play(player, 'interact', 'desktop', { message: 'ignored - interact has no toast' });
+
+        expect(sim.world.ui.popups).toEqual([{ player, text: 'The door is locked', displayTime: 3 }]);
+    });
+
+    it('plays custom recipes', () => {
+        const feedback = createService();
+        const player = sim.spawnPlayer('mobile');
+
+        feedback.setRecipe('success', 'mobile', { toast: true });
+        feedback.play(player, 'success', 'mobile', { message: 'Level complete!' });
+
+        expect(feedback.getRecipe('success', 'mobile')).toEqual({ toast: true });
+        expect(sim.world.ui.popups.map(({ text }) => text)).toEqual(['Level complete!']);
+    });
+});
@@ -0,0 +1,158 @@
+import * as hz from 'horizon/core';
+import { defineAction, InputMapper } from '../src/inputMapper';
+import { FocusTracker } from '../src/focus';
+import { TestWorld } from './harness';
+
+describe('FocusTracker', () => {
+    let sim: TestWorld;
+    let mapper: InputMapper;
+    let focus: FocusTracker;
+
+    const createTarget = (name: string, x: number, z: number) => {
+        const entity = sim.createEntity(name);
+        entity.position.set(new hz.Vec3(x, 0, z));
+        return entity;
+    };
+
+    const look = (player: hz.Player, x: number, z: number) => player.head.forward.set(new hz.Vec3(x, 0, z));
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        sim = new TestWorld();
+        mapper = sim.attach(InputMapper, sim.createEntity('InputMapper_System'));
+        focus = mapper.focus;
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('picks the target nearest the player\'s gaze', () => {
+        const left = createTarget('Left door', -1, 2);
+        const right = createTarget('Right door', 1, 2);
+        focus.addTarget(left);
+        focus.addTarget(right);
+        const player = sim.spawnPlayer('vr');
+
+        look(player, 1, 2);
+        expect(focus.getFocus(player)).toBe(right);
+
+        look(player, -1, 2);
+        expect(focus.getFocus(player)).toBe(left);
+    });
+
+    it('ignores targets out of reach or off to the side', () => {
+        const far = createTarget('Far chest', 0, 5);
+        const aside = createTarget('Lever', 2, 0.5);
+        focus.addTarget(far);
+        focus.addTarget(aside, { maxAngle: 45 });
+        const player = sim.spawnPlayer('desktop');
+
+        expect(focus.getFocus(player)).toBeNull();
+
+        focus.addTarget(createTarget('Near chest', 0, 1));
+        expect(focus.getFocus(player)?.name.get()).toBe('Near chest');
+    });
+
+    it('prefers higher priorities over closer targets', () => {
+        const chest = createTarget('Chest', 0, 1);
+        const lever = createTarget('Lever', 0.5, 2.5);
+        focus.addTarget(chest);
+        focus.addTarget(lever, { priority: 1 });
+
+        expect(focus.getFocus(sim.spawnPlayer('mobile'))).toBe(lever);
+    });
+
+    it('aims with a reported ray until it is cleared', () => {
+        const left = createTarget('Left door', -1, 2);
+        const right = createTarget('Right door', 1, 2);
+        focus.addTarget(left);
+        focus.addTarget(right);
+        const player = sim.spawnPlayer('mobile');
+        look(player, -1, 2);
+
+        focus.reportAim(player, new hz.Vec3(0, 0, 0), new hz.Vec3(1, 0, 2));
+        expect(focus.getFocus(player)).toBe(right);
+        expect(focus.getAim(player).direction).toEqual(new hz.Vec3(1, 0, 2));
+
+        focus.clearAim(player);
+        expect(focus.getFocus(player)).toBe(left);
+    });
+
+    it('keeps focus current and shows highlights only to the players focusing', async () => {
+        const outline = sim.createEntity('Outline');
+        const door = createTarget('Door', 0, 2);
+        focus.addTarget(door, { highlight: outline });
+        const changes: string[] = [];
+        focus.onFocusChanged((player, from, to) => changes.push(`${player.name.get()}: ${from?.name.get() ?? '-'} -> ${to?.name.get() ?? '-'}`));
+        const sam = sim.spawnPlayer('vr', 'Sam');
+        const alex = sim.spawnPlayer('desktop', 'Alex');
+        look(alex, 1, 0);
+        expect(outline.visibility.get()?.players).toEqual([]);
+
+        await jest.advanceTimersByTimeAsync(100);
+        expect(outline.visibility.get()?.players).toEqual([sam]);
+
+        look(sam, -1, 0);
+        look(alex, 0, 1);
+        await jest.advanceTimersByTimeAsync(100);
+        expect(outline.visibility.get()?.players).toEqual([alex]);
+        expect(changes).toEqual(['Sam: - -> Door', 'Sam: Door -> -', 'Alex: - -> Door']);
+    });
+
+    it('forgets players who leave and targets that are removed', async () => {
+        const outline = sim.createEntity('Outline');
+        const door = createTarget('Door', 0, 2);
+        const target = focus.addTarget(door, { highlight: outline });
+        const sam = sim.spawnPlayer('vr', 'Sam');
+        const alex = sim.spawnPlayer('vr', 'Alex');
+        await jest.advanceTimersByTimeAsync(100);
+
+        sim.removePlayer(sam);
+        expect(outline.visibility.get()?.players).toEqual([alex]);
+
+        target.disconnect();
+        expect(outline.visibility.get()?.players).toEqual([]);
+        expect(focus.getFocus(alex)).toBeNull();
+        expect(focus.getTargets()).toEqual([]);
+    });
+
+    describe('focused bindings', () => {
+        it('fires an input shared by overlapping objects only for the focused one', () => {
+            const Use = defineAction('use');
+            const handler = jest.fn();
+            const left = createTarget('Left lever', -1, 2);
+            const right = createTarget('Right lever', 1, 2);
+            const zone = sim.createEntity('Zone');
+            for (const lever of [left, right]) {
+                focus.addTarget(lever);
+                mapper.registerAction(Use, { default: handler }, { scope: lever });
+                mapper.bindAction(Use, { any: [{ input: 'proximityEnter', entity: zone }] }, { entity: lever, focus: true });
+            }
+            const player = sim.spawnPlayer('desktop');
+            look(player, 1, 2);
+
+            sim.enterTrigger(zone, player);
+
+            expect(handler).toHaveBeenCalledTimes(1);
+            expect(handler.mock.calls[0][0].entity).toBe(right);
+        });
+
+        it('sends bare controls to whatever the player focuses', () => {
+            const Use = defineAction('use');
+            const handler = jest.fn();
+            const chest = createTarget('Chest', 0, 1);
+            mapper.registerAction(Use, { default: handler });
+            mapper.bindAction(Use, { any: [{ input: 'control', action: hz.PlayerInputAction.RightPrimary }] }, { focus: true });
+            const player = sim.spawnPlayer('desktop');
+            sim.setLocalPlayer(player);
+
+            sim.pressInput(hz.PlayerInputAction.RightPrimary);
+            expect(handler).not.toHaveBeenCalled();
+
+            focus.addTarget(chest);
+            sim.pressInput(hz.PlayerInputAction.RightPrimary);
+            expect(handler).toHaveBeenCalledWith(expect.objectContaining({ player, entity: chest }), expect.anything());
+        });
+    });
+});
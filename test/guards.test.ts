@@ -0,0 +1,147 @@
+import * as hz from 'horizon/core';
+import { allowPlayers, anyOf, cooldown, duringHours, rateLimit, requireRole, requireTeam, when, withinDistance } from '../src/guards';
+import { ActionInfo } from '../src/inputMapper';
+import { TestWorld } from './harness';
+
+describe('guards', () => {
+    let sim: TestWorld;
+    const info: ActionInfo = { actionName: 'press', deviceType: 'vr' };
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        sim = new TestWorld();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    describe('cooldown', () => {
+        it('rejects a player until the cooldown has passed', () => {
+            const guard = cooldown(2, 'Wait');
+            const player = sim.createPlayer('vr');
+
+            expect(guard({ player }, info)).toBeUndefined();
+            expect(guard({ player }, info)).toBe('Wait');
+
+            jest.advanceTimersByTime(2000);
+
+            expect(guard({ player }, info)).toBeUndefined();
+        });
+
+        it('tracks each player separately', () => {
+            const guard = cooldown(2);
+
+            expect(guard({ player: sim.createPlayer('vr') }, info)).toBeUndefined();
+            expect(guard({ player: sim.createPlayer('vr') }, info)).toBeUndefined();
+        });
+    });
+
+    describe('rateLimit', () => {
+        it('allows a fixed number of triggers per sliding window', () => {
+            const guard = rateLimit(2, 1, 'Slow down');
+            const player = sim.createPlayer('mobile');
+
+            expect(guard({ player }, info)).toBeUndefined();
+            jest.advanceTimersByTime(500);
+            expect(guard({ player }, info)).toBeUndefined();
+            expect(guard({ player }, info)).toBe('Slow down');
+
+            jest.advanceTimersByTime(600);
+
+            expect(guard({ player }, info)).toBeUndefined();
+        });
+    });
+
+    describe('duringHours', () => {
+        const at = (hour: number, minute = 0) => () => new Date(2026, 0, 1, hour, minute);
+
+        it('allows triggers inside the window only', () => {
+            const player = sim.createPlayer('vr');
+
+            expect(duringHours(9, 17, 'Closed', at(9))({ player }, info)).toBeUndefined();
+            expect(duringHours(9, 17, 'Closed', at(16, 59))({ player }, info)).toBeUndefined();
+            expect(duringHours(9, 17, 'Closed', at(17))({ player }, info)).toBe('Closed');
+            expect(duringHours(9.5, 17, 'Closed', at(9, 15))({ player }, info)).toBe('Closed');
+        });
+
+        it('wraps windows past midnight', () => {
+            const player = sim.createPlayer('vr');
+
+            expect(duringHours(22, 6, 'Closed', at(23))({ player }, info)).toBeUndefined();
+            expect(duringHours(22, 6, 'Closed', at(3))({ player }, info)).toBeUndefined();
+            expect(duringHours(22, 6, 'Closed', at(12))({ player }, info)).toBe('Closed');
+        });
+    });
+
+    describe('allowPlayers', () => {
+        it('allows only the listed names', () => {
+            const guard = allowPlayers(['Sam']);
+
+            expect(guard({ player: sim.createPlayer('vr', 'Sam') }, info)).toBeUndefined();
+            expect(guard({ player: sim.createPlayer('vr', 'Alex') }, info)).toBe('You\'re not on the list');
+        });
+    });
+
+    describe('anyOf', () => {
+        it('passes when any guard passes and otherwise gives the first reason', () => {
+            const player = sim.createPlayer('mobile');
+            const no = (reason: string) => when(() => false, reason);
+
+            expect(anyOf(no('first'), when(() => true, 'unused'))({ player }, info)).toBeUndefined();
+            expect(anyOf(no('first'), no('second'))({ player }, info)).toBe('first');
+        });
+    });
+
+    describe('requireTeam', () => {
+        it('allows only the listed teams', () => {
+            const red = sim.createPlayer('vr');
+            const blue = sim.createPlayer('vr');
+            const loner = sim.createPlayer('vr');
+            const teams = new Map([[red.id, 'red'], [blue.id, 'blue']]);
+            const guard = requireTeam((player) => teams.get(player.id), ['red']);
+
+            expect(guard({ player: red }, info)).toBeUndefined();
+            expect(guard({ player: blue }, info)).toBe('Only red team can do this');
+            expect(guard({ player: loner }, info)).toBe('Only red team can do this');
+        });
+    });
+
+    describe('requireRole', () => {
+        it('allows players holding any listed role', () => {
+            const builder = sim.createPlayer('desktop');
+            const guard = requireRole((player) => (player === builder ? ['builder'] : []), ['builder', 'admin']);
+
+            expect(guard({ player: builder }, info)).toBeUndefined();
+            expect(guard({ player: sim.createPlayer('desktop') }, info)).toBe('You don\'t have permission to do this');
+        });
+    });
+
+    describe('withinDistance', () => {
+        it('compares the player position with the interacted entity', () => {
+            const guard = withinDistance(3);
+            const entity = sim.createEntity('Button');
+            const player = sim.createPlayer('vr');
+
+            player.position.set(new hz.Vec3(2, 0, 0));
+            expect(guard({ player, entity }, info)).toBeUndefined();
+
+            player.position.set(new hz.Vec3(5, 0, 0));
+            expect(guard({ player, entity }, info)).toBe('Move closer to interact');
+        });
+
+        it('allows triggers without an entity', () => {
+            expect(withinDistance(1)({ player: sim.createPlayer('vr') }, info)).toBeUndefined();
+        });
+    });
+
+    describe('when', () => {
+        it('turns a predicate into a guard', () => {
+            const guard = when<{ code: number }>((ctx) => ctx.data?.code === 42, 'Wrong code');
+            const player = sim.createPlayer('vr');
+
+            expect(guard({ player, data: { code: 42 } }, info)).toBeUndefined();
+            expect(guard({ player, data: { code: 1 } }, info)).toBe('Wrong code');
+        });
+    });
+});
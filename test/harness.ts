@@ -0,0 +1,156 @@
+import * as hz from 'horizon/core';
+
+/**
+ * Test harness around the fake horizon/core.
+ *
+ * Spawns simulated players, builds entities, attaches components with props,
+ * and fires the code block events a real world would send.
+ */
+
+export type SimDevice = 'vr' | 'mobile' | 'desktop';
+
+const DEVICE_TYPES: Record<SimDevice, hz.PlayerDeviceType> = {
+    vr: hz.PlayerDeviceType.VR,
+    mobile: hz.PlayerDeviceType.Mobile,
+    desktop: hz.PlayerDeviceType.Desktop,
+};
+
+type ComponentCtor<T extends hz.Component> = (new () => T) & { propsDefinition: Record<string, any> };
+
+export class TestWorld {
+    readonly world = new hz.World();
+    private nextPlayerId = 1;
+    private nextEntityId = 1n;
+
+    createEntity(name: string, tags: string[] = []): hz.Entity {
+        const entity = new hz.Entity(this.nextEntityId++, name);
+        entity.tags.set(tags);
+        this.world.entities.push(entity);
+        return entity;
+    }
+
+    /**
+     * Creates a component on `entity`, fills in prop defaults, then runs
+     * preStart() and start() the way the engine does.
+     */
+    attach<T extends hz.Component>(
+        ctor: ComponentCtor<T>,
+        entity: hz.Entity,
+        props: Partial<T['props']> = {},
+        world: hz.World = this.world
+    ): T {
+        const component = new ctor();
+        const defaults: Record<string, unknown> = {};
+        for (const [key, definition] of Object.entries(ctor.propsDefinition)) {
+            defaults[key] = definition.default;
+        }
+
+        component.entity = entity;
+        component.world = world;
+        component.props = { ...defaults, ...props } as T['props'];
+        entity.attachedComponents.push(component);
+
+        component.preStart();
+        component.start();
+        return component;
+    }
+
+    /**
+     * Like attach(), but the component runs on `owner`'s device - as a local
+     * script would. It shares this world's players, events and network, but
+     * world.getLocalPlayer() returns `owner`.
+     */
+    attachLocal<T extends hz.Component>(
+        owner: hz.Player,
+        ctor: ComponentCtor<T>,
+        entity: hz.Entity,
+        props: Partial<T['props']> = {}
+    ): T {
+        const clientView: hz.World = Object.create(this.world, { localPlayer: { value: owner } });
+        return this.attach(ctor, entity, props, clientView);
+    }
+
+    /** Disposes a component and drops its listeners and timers */
+    detach(component: hz.Component): void {
+        component.dispose();
+        component.subscriptions.forEach((subscription) => subscription.disconnect());
+        component.async.clearAll();
+
+        const attached = component.entity.attachedComponents;
+        attached.splice(attached.indexOf(component), 1);
+    }
+
+    /** Creates a player without announcing them to the world */
+    createPlayer(device: SimDevice, name = `${device}-player-${this.nextPlayerId}`): hz.Player {
+        return new hz.Player(this.nextPlayerId++, name, DEVICE_TYPES[device]);
+    }
+
+    /** Simulates a player switching devices mid-session (e.g. taking off a headset) */
+    switchDevice(player: hz.Player, device: SimDevice): void {
+        (player.deviceType as hz.HorizonProperty<hz.PlayerDeviceType>).set(DEVICE_TYPES[device]);
+    }
+
+    /** Creates a player and fires OnPlayerEnterWorld for them */
+    spawnPlayer(device: SimDevice, name?: string): hz.Player {
+        const player = this.createPlayer(device, name);
+        this.world.players.push(player);
+        this.world.dispatch(null, hz.CodeBlockEvents.OnPlayerEnterWorld, player);
+        return player;
+    }
+
+    /** Removes a player and fires OnPlayerExitWorld for them */
+    removePlayer(player: hz.Player): void {
+        const index = this.world.players.indexOf(player);
+        if (index >= 0) {
+            this.world.players.splice(index, 1);
+        }
+        this.world.dispatch(null, hz.CodeBlockEvents.OnPlayerExitWorld, player);
+    }
+
+    grab(target: hz.Entity, player: hz.Player, isRightHand = true): void {
+        this.world.dispatch(target, hz.CodeBlockEvents.OnGrabStart, isRightHand, player);
+    }
+
+    release(target: hz.Entity, player: hz.Player): void {
+        this.world.dispatch(target, hz.CodeBlockEvents.OnGrabEnd, player);
+    }
+
+    enterTrigger(trigger: hz.Entity, player: hz.Player): void {
+        this.world.dispatch(trigger, hz.CodeBlockEvents.OnPlayerEnterTrigger, player);
+    }
+
+    exitTrigger(trigger: hz.Entity, player: hz.Player): void {
+        this.world.dispatch(trigger, hz.CodeBlockEvents.OnPlayerExitTrigger, player);
+    }
+
+    /** Collects every payload of a local event sent to `target`, as a script listening there would */
+    recordLocalEvent<T>(target: hz.Entity, event: hz.LocalEvent<T>): T[] {
+        const received: T[] = [];
+        this.world.localListeners.add({ target, event, callback: (data: T) => received.push(data) });
+        return received;
+    }
+
+    /** Collects the names of Code Block events sent to `target`, in order */
+    recordCodeBlockEvents(target: hz.Entity, events: hz.CodeBlockEvent<any>[]): string[] {
+        const received: string[] = [];
+        for (const event of events) {
+            this.world.listeners.add({ target, event, callback: () => received.push(event.name) });
+        }
+        return received;
+    }
+
+    /** Makes `player` the owner of local scripts, as if they ran on that player's device */
+    setLocalPlayer(player: hz.Player): void {
+        this.world.localPlayer = player;
+    }
+
+    /** Presses and releases a local input, like a key or controller button */
+    pressInput(action: hz.PlayerInputAction): void {
+        for (const pressed of [true, false]) {
+            for (const input of [...this.world.localInputs]) {
+                if (input.action !== action) continue;
+                input.callbacks.forEach((callback) => callback(action, pressed));
+            }
+        }
+    }
+}
@@ -0,0 +1,135 @@
+import * as hz from 'horizon/core';
+import { HintDisplay, HintService, popupHintDisplay, worldTextHintDisplay } from '../src/hints';
+import { InputMapper } from '../src/inputMapper';
+import { TestWorld } from './harness';
+
+class HintHost extends hz.Component<typeof HintHost> {
+    static propsDefinition = {};
+    start() {}
+}
+
+describe('HintService', () => {
+    let sim: TestWorld;
+    let host: HintHost;
+    let mapper: InputMapper;
+    let shown: string[];
+    let hidden: string[];
+
+    const recordingDisplay: HintDisplay = {
+        show: (player, text) => shown.push(`${player.name.get()}: ${text}`),
+        hide: (player) => hidden.push(player.name.get()),
+    };
+
+    beforeEach(() => {
+        sim = new TestWorld();
+        mapper = sim.attach(InputMapper, sim.createEntity('InputMapper_System'));
+        host = sim.attach(HintHost, sim.createEntity('Lever'));
+        shown = [];
+        hidden = [];
+    });
+
+    it('words the hint for each device', () => {
+        const hints = new HintService(host, mapper, recordingDisplay);
+
+        for (const device of ['vr', 'mobile', 'desktop'] as const) {
+            hints.show(sim.spawnPlayer(device, device), { target: 'lever', action: 'pull it' });
+        }
+
+        expect(shown).toEqual([
+            'vr: Grab the lever to pull it',
+            'mobile: Tap the lever to pull it',
+            'desktop: Click the lever to pull it',
+        ]);
+    });
+
+    it('uses per-device templates and fills in the player name', () => {
+        const hints = new HintService(host, mapper, recordingDisplay);
+        const hint = { action: 'ring', templates: { mobile: '{player}, tap to {action} - {unknown}' } };
+
+        hints.show(sim.spawnPlayer('mobile', 'Sam'), hint);
+        hints.show(sim.spawnPlayer('desktop', 'Alex'), hint);
+
+        expect(shown).toEqual(['Sam: Sam, tap to ring - {unknown}', 'Alex: Click the object to ring']);
+    });
+
+    it('updates only players whose text changed on refresh()', () => {
+        const hints = new HintService(host, mapper, recordingDisplay);
+        let isOn = false;
+        const player = sim.spawnPlayer('vr', 'Sam');
+        hints.show(player, { target: 'lever', action: () => isOn ? 'switch off' : 'switch on' });
+
+        hints.refresh();
+        isOn = true;
+        hints.refresh();
+
+        expect(shown).toEqual(['Sam: Grab the lever to switch on', 'Sam: Grab the lever to switch off']);
+    });
+
+    it('rewords the hint when the player switches device', () => {
+        const hints = new HintService(host, mapper, recordingDisplay);
+        const player = sim.spawnPlayer('vr', 'Sam');
+        hints.show(player, { target: 'lever', action: 'pull it' });
+
+        sim.switchDevice(player, 'desktop');
+        mapper.refreshDevice(player);
+
+        expect(shown[shown.length - 1]).toBe('Sam: Click the lever to pull it');
+    });
+
+    it('shows hints in a trigger and hides them on exit or leaving the world', () => {
+        const hints = new HintService(host, mapper, recordingDisplay);
+        const trigger = sim.createEntity('LeverTrigger');
+        const walker = sim.spawnPlayer('mobile', 'Sam');
+        const leaver = sim.spawnPlayer('desktop', 'Alex');
+        hints.watchTrigger(trigger, { target: 'lever', action: 'pull it' });
+
+        sim.enterTrigger(trigger, walker);
+        sim.enterTrigger(trigger, leaver);
+        sim.exitTrigger(trigger, walker);
+        sim.removePlayer(leaver);
+
+        expect(shown).toEqual(['Sam: Tap the lever to pull it', 'Alex: Click the lever to pull it']);
+        expect(hidden).toEqual(['Sam', 'Alex']);
+        expect(hints.isShowing(walker)).toBe(false);
+    });
+
+    it('hides everything and stops watching once disposed', () => {
+        const hints = new HintService(host, mapper, recordingDisplay);
+        const trigger = sim.createEntity('LeverTrigger');
+        const player = sim.spawnPlayer('vr', 'Sam');
+        hints.watchTrigger(trigger, { action: 'pull it' });
+        sim.enterTrigger(trigger, player);
+
+        hints.dispose();
+        sim.enterTrigger(trigger, sim.spawnPlayer('vr', 'Alex'));
+
+        expect(hidden).toEqual(['Sam']);
+        expect(shown).toEqual(['Sam: Grab the object to pull it']);
+    });
+
+    describe('displays', () => {
+        it('shows popups for one player', () => {
+            const player = sim.spawnPlayer('mobile');
+
+            popupHintDisplay(sim.world, 5).show(player, 'Tap the lever');
+
+            expect(sim.world.ui.popups).toEqual([{ player, text: 'Tap the lever', displayTime: 5 }]);
+        });
+
+        it('shows a world label only to players with a hint', () => {
+            const label = sim.createEntity('HintLabel');
+            const display = worldTextHintDisplay(label);
+            const sam = sim.spawnPlayer('vr', 'Sam');
+            const alex = sim.spawnPlayer('desktop', 'Alex');
+
+            expect(label.visibility.get()).toEqual({ players: [], mode: hz.PlayerVisibilityMode.VisibleTo });
+
+            display.show(sam, 'Grab the lever');
+            display.show(alex, 'Click the lever');
+            display.hide(sam);
+
+            expect(label.as(hz.TextGizmo).text.get()).toBe('Click the lever');
+            expect(label.visibility.get()).toEqual({ players: [alex], mode: hz.PlayerVisibilityMode.VisibleTo });
+        });
+    });
+});
@@ -0,0 +1,1145 @@
+import * as hz from 'horizon/core';
+import { botDetector, categoryDetector } from '../src/detectors';
+import { ActionTimeoutError, DEFAULT_FORWARD_TIMEOUT, InputMapper, defineAction } from '../src/inputMapper';
+import { TestWorld } from './harness';
+
+describe('InputMapper', () => {
+    let sim: TestWorld;
+    let mapper: InputMapper;
+
+    // A plain action most tests register and trigger
+    const Press = defineAction('press');
+
+    beforeEach(() => {
+        sim = new TestWorld();
+        mapper = sim.attach(InputMapper, sim.createEntity('InputMapper_System'));
+    });
+
+    describe('detectDevice', () => {
+        it('maps Horizon device types to vr, mobile and desktop', () => {
+            expect(mapper.detectDevice(sim.spawnPlayer('vr'))).toBe('vr');
+            expect(mapper.detectDevice(sim.spawnPlayer('mobile'))).toBe('mobile');
+            expect(mapper.detectDevice(sim.spawnPlayer('desktop'))).toBe('desktop');
+        });
+
+        it('caches the first detection for a player', () => {
+            const player = sim.createPlayer('vr');
+            const deviceType = jest.spyOn(player.deviceType, 'get');
+
+            mapper.detectDevice(player);
+            mapper.detectDevice(player);
+
+            expect(deviceType).toHaveBeenCalledTimes(1);
+        });
+
+        it('treats the server player as desktop without caching it', () => {
+            const server = sim.world.getServerPlayer();
+
+            expect(mapper.detectDevice(server)).toBe('desktop');
+            expect(mapper.getPlayerStats().desktop).toBe(0);
+        });
+
+        it('falls back to desktop when the device type cannot be read', () => {
+            const player = sim.createPlayer('vr');
+            jest.spyOn(player.deviceType, 'get').mockImplementation(() => {
+                throw new Error('not available');
+            });
+
+            expect(mapper.detectDevice(player)).toBe('desktop');
+        });
+    });
+
+    describe('trigger', () => {
+        it('routes to the handler for the player device', () => {
+            const handlers = { vr: jest.fn(), mobile: jest.fn(), desktop: jest.fn() };
+            mapper.registerAction(Press, handlers);
+
+            const player = sim.spawnPlayer('mobile');
+            mapper.trigger(Press, { player });
+
+            expect(handlers.mobile).toHaveBeenCalledWith({ player }, expect.anything());
+            expect(handlers.vr).not.toHaveBeenCalled();
+            expect(handlers.desktop).not.toHaveBeenCalled();
+        });
+
+        it('falls back to the desktop handler when fallbackToDesktop is on', () => {
+            const desktop = jest.fn();
+            mapper.registerAction(Press, { desktop });
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(desktop).toHaveBeenCalledTimes(1);
+        });
+
+        it('never routes to an arbitrary other device handler', () => {
+            const mobile = jest.fn();
+            mapper.registerAction(Press, { mobile });
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(mobile).not.toHaveBeenCalled();
+            expect(console.warn).toHaveBeenCalledWith("❌ No compatible handler found for 'press' on vr");
+        });
+
+        it('warns when the action is unknown', () => {
+            mapper.trigger(defineAction('missing'), { player: sim.spawnPlayer('vr') });
+
+            expect(console.warn).toHaveBeenCalledWith('❌ No handlers found for action: missing');
+        });
+
+        it('logs handler errors instead of throwing', () => {
+            mapper.registerAction(Press, {
+                vr: () => {
+                    throw new Error('boom');
+                },
+            });
+
+            expect(() => mapper.trigger(Press, { player: sim.spawnPlayer('vr') })).not.toThrow();
+            expect(console.error).toHaveBeenCalled();
+        });
+
+        it('runs every handler registered for the same action', () => {
+            const first = jest.fn();
+            const second = jest.fn();
+            mapper.registerAction(Press, { vr: first });
+            mapper.registerAction(Press, { vr: second });
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(first).toHaveBeenCalledTimes(1);
+            expect(second).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('multicast listeners', () => {
+        it('runs higher priorities first and keeps registration order for ties', () => {
+            const calls: string[] = [];
+            mapper.registerAction(Press, { vr: () => calls.push('low') }, { priority: -1 });
+            mapper.registerAction(Press, { vr: () => calls.push('first') });
+            mapper.registerAction(Press, { vr: () => calls.push('high') }, { priority: 5 });
+            mapper.registerAction(Press, { vr: () => calls.push('second') });
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(calls).toEqual(['high', 'first', 'second', 'low']);
+        });
+
+        it('lets a handler stop lower-priority handlers', () => {
+            const low = jest.fn();
+            mapper.registerAction(Press, { vr: (ctx, dispatch) => dispatch.stopPropagation() }, { priority: 1 });
+            mapper.registerAction(Press, { vr: low });
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(low).not.toHaveBeenCalled();
+        });
+
+        it('mixes device handlers and default listeners', () => {
+            const vr = jest.fn();
+            const logger = jest.fn();
+            mapper.registerAction(Press, { vr });
+            mapper.registerAction(Press, { default: logger });
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+            mapper.trigger(Press, { player: sim.spawnPlayer('mobile') });
+
+            expect(vr).toHaveBeenCalledTimes(1);
+            expect(logger).toHaveBeenCalledTimes(2);
+        });
+
+        it('keeps running other listeners when one throws', () => {
+            const after = jest.fn();
+            mapper.registerAction(Press, {
+                vr: () => {
+                    throw new Error('boom');
+                },
+            });
+            mapper.registerAction(Press, { vr: after });
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(after).toHaveBeenCalledTimes(1);
+        });
+
+        it('disconnects just its own registration', () => {
+            const kept = jest.fn();
+            const removed = jest.fn();
+            mapper.registerAction(Press, { vr: kept });
+            const subscription = mapper.registerAction(Press, { vr: removed });
+
+            subscription.disconnect();
+            subscription.disconnect();
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(kept).toHaveBeenCalledTimes(1);
+            expect(removed).not.toHaveBeenCalled();
+        });
+
+        it('forgets the action once its last registration disconnects', () => {
+            const subscription = mapper.registerAction(Press, { vr: jest.fn() });
+
+            subscription.disconnect();
+
+            expect(mapper.getRegisteredActions()).toEqual([]);
+        });
+    });
+
+    describe('typed actions', () => {
+        const Press = defineAction<{ buttonId: number }>('press');
+        const Ping = defineAction('ping');
+
+        it('passes typed data through to the handler', () => {
+            const seen: number[] = [];
+            mapper.registerAction(Press, { vr: (ctx) => seen.push(ctx.data!.buttonId) });
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr'), data: { buttonId: 7 } });
+
+            expect(seen).toEqual([7]);
+        });
+
+        it('shares the registry with plain action names', () => {
+            const handler = jest.fn();
+            mapper.registerAction(Press, { vr: handler });
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr'), data: { buttonId: 1 } });
+
+            expect(handler).toHaveBeenCalledTimes(1);
+            expect(mapper.getRegisteredActions()).toEqual(['press']);
+        });
+
+        it('rejects mistakes at compile time', () => {
+            const player = sim.spawnPlayer('vr');
+            const extraDevice = { vr: jest.fn(), watch: jest.fn() };
+
+            // @ts-expect-error - unknown device key
+            mapper.registerAction(Press, { vrr: jest.fn() });
+            // @ts-expect-error - unknown device key in a handler map variable
+            mapper.registerAction(Press, extraDevice);
+            // @ts-expect-error - data is required for actions that declare it
+            mapper.trigger(Press, { player });
+            // @ts-expect-error - data has the wrong shape
+            mapper.trigger(Press, { player, data: { buttonId: 'seven' } });
+            // @ts-expect-error - actions without data don't accept any
+            mapper.trigger(Ping, { player, data: 1 });
+            // Never called - plain names only need to fail the type check
+            const byName = () => {
+                // @ts-expect-error - actions are declared with defineAction(), not named by string
+                mapper.trigger('door_interac', { player });
+                // @ts-expect-error - the same goes for registering
+                mapper.registerAction('door_interac', { vr: jest.fn() });
+            };
+
+            mapper.trigger(Ping, { player });
+        });
+    });
+
+    describe('guards and middleware', () => {
+        it('rejects with the reason from an action guard', async () => {
+            const Press = defineAction('press', { guards: [() => 'Not now'] });
+            const vr = jest.fn();
+            mapper.registerAction(Press, { vr });
+            const player = sim.spawnPlayer('vr');
+
+            const result = await mapper.trigger(Press, { player });
+
+            expect(vr).not.toHaveBeenCalled();
+            expect(result.status).toBe('rejected');
+            expect(result.rejection).toEqual({ actionName: 'press', player, deviceType: 'vr', reason: 'Not now', source: 'guard' });
+        });
+
+        it('gates only the registration its guards belong to', async () => {
+            const gated = jest.fn();
+            const open = jest.fn();
+            mapper.registerAction(Press, { vr: gated }, { guards: [() => 'Locked'] });
+            mapper.registerAction(Press, { vr: open });
+
+            const result = await mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(result.status).toBe('executed');
+            expect(gated).not.toHaveBeenCalled();
+            expect(open).toHaveBeenCalledTimes(1);
+        });
+
+        it('rejects when every registration is gated', async () => {
+            mapper.registerAction(Press, { vr: jest.fn() }, { guards: [() => 'Locked'] });
+
+            const result = await mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(result.rejection?.reason).toBe('Locked');
+        });
+
+        it('passes the detected device to guards', () => {
+            const guard = jest.fn();
+            mapper.registerAction(defineAction('press', { guards: [guard] }), { default: jest.fn() });
+            const player = sim.spawnPlayer('mobile');
+
+            mapper.trigger(Press, { player });
+
+            expect(guard).toHaveBeenCalledWith({ player }, { actionName: 'press', deviceType: 'mobile' });
+        });
+
+        it('treats a throwing guard as a rejection', async () => {
+            mapper.registerAction(Press, { vr: jest.fn() }, {
+                guards: [() => {
+                    throw new Error('boom');
+                }],
+            });
+
+            const result = await mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(result.rejection?.reason).toBe('Guard failed');
+        });
+
+        it('tells onRejected listeners', () => {
+            const listener = jest.fn();
+            const subscription = mapper.onRejected(listener);
+            mapper.registerAction(Press, { vr: jest.fn() }, { guards: [() => 'Nope'] });
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+            subscription.disconnect();
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(listener.mock.calls[0][0].reason).toBe('Nope');
+        });
+
+        it('wraps handlers in global then action middleware', () => {
+            const calls: string[] = [];
+            const Press = defineAction('press', {
+                middleware: [(ctx, info, next) => {
+                    calls.push('action:before');
+                    next();
+                    calls.push('action:after');
+                }],
+            });
+            mapper.use((ctx, info, next) => {
+                calls.push(`global:before:${info.actionName}:${info.deviceType}`);
+                next();
+                calls.push('global:after');
+            });
+            mapper.registerAction(Press, { vr: () => calls.push('handler') });
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(calls).toEqual([
+                'global:before:press:vr',
+                'action:before',
+                'handler',
+                'action:after',
+                'global:after',
+            ]);
+        });
+
+        it('rejects when middleware returns a reason instead of calling next', async () => {
+            const vr = jest.fn();
+            mapper.use(() => 'Maintenance');
+            mapper.registerAction(Press, { vr });
+
+            const result = await mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(vr).not.toHaveBeenCalled();
+            expect(result.rejection).toMatchObject({ reason: 'Maintenance', source: 'middleware' });
+        });
+
+        it('lets async middleware wait for async handlers', async () => {
+            const calls: string[] = [];
+            mapper.use(async (ctx, info, next) => {
+                calls.push('before');
+                await next();
+                calls.push('after');
+            });
+            mapper.registerAction(Press, {
+                vr: async () => {
+                    await Promise.resolve();
+                    calls.push('handler');
+                },
+            });
+
+            await mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(calls).toEqual(['before', 'handler', 'after']);
+        });
+
+        it('removes middleware when its subscription disconnects', () => {
+            const vr = jest.fn();
+            mapper.use(() => 'Maintenance').disconnect();
+            mapper.registerAction(Press, { vr });
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(vr).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('async handlers and results', () => {
+        it('resolves with the handler slot and return values', async () => {
+            const Roll = defineAction<void, number>('roll', { fallbacks: { mobile: ['desktop'] } });
+            mapper.registerAction(Roll, { desktop: () => 4 }, { priority: 1 });
+            mapper.registerAction(Roll, { desktop: () => 6 });
+
+            const result = await mapper.trigger(Roll, { player: sim.spawnPlayer('mobile') });
+
+            expect(result).toEqual({
+                status: 'executed',
+                actionName: 'roll',
+                deviceType: 'mobile',
+                handlerSlot: 'desktop',
+                value: 4,
+                values: [4, 6],
+            });
+        });
+
+        it('runs synchronous handlers before trigger returns', () => {
+            const vr = jest.fn();
+            mapper.registerAction(Press, { vr });
+
+            void mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(vr).toHaveBeenCalledTimes(1);
+        });
+
+        it('awaits async handlers in priority order', async () => {
+            const calls: string[] = [];
+            mapper.registerAction(Press, {
+                vr: async () => {
+                    await new Promise((resolve) => setTimeout(resolve, 10));
+                    calls.push('first');
+                    return 'loaded';
+                },
+            }, { priority: 1 });
+            mapper.registerAction(Press, { vr: () => { calls.push('second'); } });
+
+            const result = await mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(calls).toEqual(['first', 'second']);
+            expect(result.value).toBe('loaded');
+        });
+
+        it('reports no-handler when nothing can run', async () => {
+            mapper.registerAction(Press, { mobile: jest.fn() });
+
+            expect((await mapper.trigger(defineAction('missing'), { player: sim.spawnPlayer('vr') })).status).toBe('no-handler');
+            expect((await mapper.trigger(Press, { player: sim.spawnPlayer('vr') })).status).toBe('no-handler');
+        });
+
+        it('reports errors from async handlers and keeps running the rest', async () => {
+            const error = new Error('save failed');
+            const after = jest.fn();
+            mapper.registerAction(Press, { vr: () => Promise.reject(error) }, { priority: 1 });
+            mapper.registerAction(Press, { vr: after });
+
+            const result = await mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(result.status).toBe('errored');
+            expect(result.error).toBe(error);
+            expect(after).toHaveBeenCalledTimes(1);
+        });
+
+        it('times out async handlers after the action timeout', async () => {
+            jest.useFakeTimers();
+            try {
+                const Load = defineAction('load', { timeout: 2 });
+                mapper.registerAction(Load, { vr: () => new Promise<void>(() => {}) });
+
+                const pending = mapper.trigger(Load, { player: sim.spawnPlayer('vr') });
+                await jest.advanceTimersByTimeAsync(2000);
+                const result = await pending;
+
+                expect(result.status).toBe('errored');
+                expect(result.error).toBeInstanceOf(ActionTimeoutError);
+                expect((result.error as Error).message).toBe("Action 'load' timed out after 2s");
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+    });
+
+    describe('networked dispatch', () => {
+        const attachClient = (player: hz.Player) => sim.attachLocal(player, InputMapper, mapper.entity);
+
+        it('forwards server actions from clients and resolves with the server result', async () => {
+            const Open = defineAction<void, string>('open', { execution: 'server' });
+            const player = sim.spawnPlayer('vr');
+            const client = attachClient(player);
+            const onServer = jest.fn(() => 'opened');
+            const onClient = jest.fn(() => 'client');
+            mapper.registerAction(Open, { vr: onServer });
+            client.registerAction(Open, { vr: onClient });
+
+            const result = await client.trigger(Open, { player });
+
+            expect(onServer).toHaveBeenCalledTimes(1);
+            expect(onClient).not.toHaveBeenCalled();
+            expect(result).toMatchObject({ status: 'executed', value: 'opened' });
+        });
+
+        it('leaves forwarded actions to the server copy of the same InputMapper', async () => {
+            const Open = defineAction<void, string>('open', { execution: 'server' });
+            const player = sim.spawnPlayer('vr');
+            const other = sim.attach(InputMapper, sim.createEntity('Other_InputMapper'));
+            const client = attachClient(player);
+            const onServer = jest.fn(() => 'opened');
+            const onOther = jest.fn(() => 'other');
+            other.registerAction(Open, { default: onOther });
+            mapper.registerAction(Open, { default: onServer });
+
+            const result = await client.trigger(Open, { player });
+
+            expect(onServer).toHaveBeenCalledTimes(1);
+            expect(onOther).not.toHaveBeenCalled();
+            expect(result).toMatchObject({ status: 'executed', value: 'opened' });
+        });
+
+        it('replicates server results to every instance', async () => {
+            const Open = defineAction<void, boolean>('open', { execution: 'server' });
+            const player = sim.spawnPlayer('desktop');
+            const client = attachClient(player);
+            const replicated = jest.fn();
+            client.onReplicated(replicated);
+            mapper.registerAction(Open, { default: () => true });
+
+            await mapper.trigger(Open, { player, entity: mapper.entity });
+
+            expect(replicated).toHaveBeenCalledWith({
+                result: expect.objectContaining({ status: 'executed', value: true }),
+                player,
+                entity: mapper.entity,
+            });
+        });
+
+        it('hands server rejections and errors back to the client', async () => {
+            const Locked = defineAction('locked', { execution: 'server', guards: [() => 'Locked'] });
+            const Broken = defineAction('broken', { execution: 'server' });
+            const player = sim.spawnPlayer('mobile');
+            const client = attachClient(player);
+            const rejected = jest.fn();
+            client.onRejected(rejected);
+            mapper.registerAction(Locked, { default: jest.fn() });
+            mapper.registerAction(Broken, {
+                default: () => {
+                    throw new Error('jammed');
+                },
+            });
+
+            const rejection = await client.trigger(Locked, { player });
+            const failure = await client.trigger(Broken, { player });
+
+            expect(rejection.rejection?.reason).toBe('Locked');
+            expect(rejected).toHaveBeenCalledWith(expect.objectContaining({ reason: 'Locked' }));
+            expect(failure.status).toBe('errored');
+            expect((failure.error as Error).message).toBe('jammed');
+        });
+
+        it('times out forwarded triggers the server never answers', async () => {
+            jest.useFakeTimers();
+            try {
+                const Open = defineAction('open', { execution: 'server', timeout: 3 });
+                const player = sim.spawnPlayer('vr');
+                sim.detach(mapper);
+                const client = attachClient(player);
+
+                const pending = client.trigger(Open, { player });
+                await jest.advanceTimersByTimeAsync(3000);
+
+                expect((await pending).error).toBeInstanceOf(ActionTimeoutError);
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        it('gives up on unanswered forwarded triggers after the default timeout', async () => {
+            jest.useFakeTimers();
+            try {
+                const Open = defineAction('open', { execution: 'server' });
+                const player = sim.spawnPlayer('vr');
+                sim.detach(mapper);
+                const client = attachClient(player);
+                const settled = jest.fn();
+
+                client.trigger(Open, { player }).then(settled);
+                await jest.advanceTimersByTimeAsync(DEFAULT_FORWARD_TIMEOUT * 1000 - 1);
+                expect(settled).not.toHaveBeenCalled();
+
+                await jest.advanceTimersByTimeAsync(1);
+                expect(settled).toHaveBeenCalledWith(expect.objectContaining({ status: 'errored', error: expect.any(ActionTimeoutError) }));
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        it('runs broadcast actions once on every instance', () => {
+            const Cheer = defineAction('cheer', { execution: 'broadcast' });
+            const player = sim.spawnPlayer('vr');
+            const client = attachClient(player);
+            const onServer = jest.fn();
+            const onClient = jest.fn();
+            mapper.registerAction(Cheer, { default: onServer });
+            client.registerAction(Cheer, { default: onClient });
+
+            client.trigger(Cheer, { player });
+
+            expect(onServer).toHaveBeenCalledTimes(1);
+            expect(onClient).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('input bindings', () => {
+        it('fires only for the device an input is bound to', () => {
+            const Use = defineAction('use');
+            const handler = jest.fn();
+            const lever = sim.createEntity('Lever');
+            mapper.registerAction(Use, { default: handler });
+            mapper.bindAction(Use, { vr: [{ input: 'grab', entity: lever }], mobile: [{ input: 'tap', entity: lever }] });
+
+            sim.grab(lever, sim.spawnPlayer('vr'));
+            sim.grab(lever, sim.spawnPlayer('mobile'));
+            sim.grab(lever, sim.spawnPlayer('desktop'));
+
+            expect(handler).toHaveBeenCalledTimes(2);
+            expect(handler.mock.calls.map(([ctx]) => ctx.player.name.get())).toEqual(['vr-player-1', 'mobile-player-2']);
+        });
+
+        it('tells handlers which hand grabbed', () => {
+            const Use = defineAction('use');
+            const handler = jest.fn();
+            const lever = sim.createEntity('Lever');
+            mapper.registerAction(Use, { default: handler });
+            mapper.bindAction(Use, { any: [{ input: 'grab', entity: lever }] });
+
+            sim.grab(lever, sim.spawnPlayer('vr'), false);
+            sim.grab(lever, sim.spawnPlayer('vr'), true);
+
+            expect(handler.mock.calls.map(([ctx]) => ctx.hand)).toEqual(['left', 'right']);
+        });
+
+        it('builds the context from the binding options', () => {
+            const Enter = defineAction<{ zone: string }>('enter');
+            const handler = jest.fn();
+            const zone = sim.createEntity('Zone');
+            const room = sim.createEntity('Room');
+            mapper.registerAction(Enter, { default: handler }, { scope: room });
+            mapper.bindAction(Enter, { any: [{ input: 'proximityEnter', entity: zone }] }, {
+                entity: room,
+                data: (player, source) => ({ zone: source!.name.get() }),
+            });
+            const player = sim.spawnPlayer('desktop');
+
+            sim.enterTrigger(zone, player);
+
+            expect(handler).toHaveBeenCalledWith({ player, entity: room, data: { zone: 'Zone' } }, expect.anything());
+        });
+
+        it('fires control bindings for the local player', () => {
+            const Jump = defineAction('jump');
+            const handler = jest.fn();
+            mapper.registerAction(Jump, { desktop: handler });
+            mapper.bindAction(Jump, { desktop: [{ input: 'control', action: hz.PlayerInputAction.Jump }] });
+
+            sim.pressInput(hz.PlayerInputAction.Jump);
+            expect(handler).not.toHaveBeenCalled();
+
+            sim.setLocalPlayer(sim.spawnPlayer('desktop'));
+            sim.pressInput(hz.PlayerInputAction.Jump);
+            expect(handler).toHaveBeenCalledTimes(1);
+        });
+
+        it('shows the Interact input only while the local player is in the zone', () => {
+            const Use = defineAction('use');
+            const handler = jest.fn();
+            const zone = sim.createEntity('Zone');
+            const player = sim.spawnPlayer('mobile');
+            const client = sim.attachLocal(player, InputMapper, mapper.entity);
+            mapper.registerAction(Use, { default: handler });
+            client.registerAction(Use, { default: handler });
+            mapper.bindAction(Use, { mobile: [{ input: 'interact', entity: zone }] });
+            client.bindAction(Use, { mobile: [{ input: 'interact', entity: zone }] });
+
+            sim.enterTrigger(zone, sim.spawnPlayer('mobile'));
+            expect(sim.world.localInputs.size).toBe(0);
+
+            sim.enterTrigger(zone, player);
+            expect([...sim.world.localInputs].map(({ action, icon }) => ({ action, icon })))
+                .toEqual([{ action: hz.PlayerInputAction.RightPrimary, icon: hz.ButtonIcon.Interact }]);
+
+            sim.pressInput(hz.PlayerInputAction.RightPrimary);
+            expect(handler).toHaveBeenCalledWith({ player, entity: zone }, expect.anything());
+
+            sim.exitTrigger(zone, player);
+            sim.pressInput(hz.PlayerInputAction.RightPrimary);
+            expect(sim.world.localInputs.size).toBe(0);
+            expect(handler).toHaveBeenCalledTimes(1);
+        });
+
+        it('binds the interactInput key for desktop players, and nothing in VR', () => {
+            const Use = defineAction('use');
+            const zone = sim.createEntity('Zone');
+            const bindFor = (device: 'vr' | 'desktop') => {
+                const player = sim.spawnPlayer(device);
+                const client = sim.attachLocal(player, InputMapper, sim.createEntity('Local_InputMapper'), { interactInput: 'RightSecondary' });
+                client.bindAction(Use, { desktop: [{ input: 'interact', entity: zone }] });
+                sim.enterTrigger(zone, player);
+            };
+
+            bindFor('vr');
+            expect(sim.world.localInputs.size).toBe(0);
+
+            bindFor('desktop');
+            expect([...sim.world.localInputs].map(({ action }) => action)).toEqual([hz.PlayerInputAction.RightSecondary]);
+        });
+
+        it('falls back to RightPrimary for an unknown interactInput', () => {
+            const player = sim.spawnPlayer('desktop');
+            const client = sim.attachLocal(player, InputMapper, mapper.entity, { interactInput: 'E' });
+            const zone = sim.createEntity('Zone');
+            client.bindAction(defineAction('use'), { any: [{ input: 'interact', entity: zone }] });
+
+            sim.enterTrigger(zone, player);
+
+            expect(console.warn).toHaveBeenCalledWith("⚠️ InputMapper: Unknown interactInput 'E' - using RightPrimary");
+            expect([...sim.world.localInputs].map(({ action }) => action)).toEqual([hz.PlayerInputAction.RightPrimary]);
+        });
+
+        it('reports each trigger outcome to onResult', async () => {
+            const Use = defineAction('use', { guards: [() => 'Locked'] });
+            const lever = sim.createEntity('Lever');
+            const onResult = jest.fn();
+            mapper.registerAction(Use, { default: jest.fn() });
+            mapper.bindAction(Use, { any: [{ input: 'grab', entity: lever }] }, { onResult });
+            const player = sim.spawnPlayer('vr');
+
+            sim.grab(lever, player);
+            await Promise.resolve();
+
+            expect(onResult).toHaveBeenCalledWith(expect.objectContaining({ status: 'rejected' }), player);
+        });
+
+        it('logs onResult errors instead of leaving them unhandled', async () => {
+            const Use = defineAction('use', { guards: [() => 'Locked'] });
+            const error = new Error('bad callback');
+            const lever = sim.createEntity('Lever');
+            mapper.registerAction(Use, { default: jest.fn() });
+            mapper.bindAction(Use, { any: [{ input: 'grab', entity: lever }] }, { onResult: () => { throw error; } });
+
+            sim.grab(lever, sim.spawnPlayer('vr'));
+            await Promise.resolve();
+            await Promise.resolve();
+
+            expect(console.error).toHaveBeenCalledWith("❌ onResult error for 'use':", error);
+        });
+
+        it('stops listening when disconnected or disposed', () => {
+            const Use = defineAction('use');
+            const handler = jest.fn();
+            const lever = sim.createEntity('Lever');
+            mapper.registerAction(Use, { default: handler });
+            mapper.bindAction(Use, { any: [{ input: 'grab', entity: lever }] }).disconnect();
+            mapper.bindAction(Use, { any: [{ input: 'control', action: hz.PlayerInputAction.Jump }] });
+            sim.setLocalPlayer(sim.spawnPlayer('desktop'));
+
+            sim.detach(mapper);
+            sim.grab(lever, sim.spawnPlayer('vr'));
+            sim.pressInput(hz.PlayerInputAction.Jump);
+
+            expect(handler).not.toHaveBeenCalled();
+        });
+
+        it('requires a data builder for actions with data', () => {
+            const Press = defineAction<{ buttonId: number }>('press');
+
+            // @ts-expect-error - data is required for this action
+            mapper.bindAction(Press, {});
+
+            mapper.bindAction(Press, {}, { data: () => ({ buttonId: 1 }) });
+        });
+    });
+
+    describe('fallback chains', () => {
+        it('follows the chain declared for the device', () => {
+            const Press = defineAction('press', { fallbacks: { mobile: ['vr', 'desktop'] } });
+            const handlers = { vr: jest.fn(), desktop: jest.fn() };
+            mapper.registerAction(Press, handlers);
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('mobile') });
+
+            expect(handlers.vr).toHaveBeenCalledTimes(1);
+            expect(handlers.desktop).not.toHaveBeenCalled();
+        });
+
+        it('does not fall back when the chain is empty', () => {
+            const Press = defineAction('press', { fallbacks: { vr: [] } });
+            const desktop = jest.fn();
+            mapper.registerAction(Press, { desktop });
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(desktop).not.toHaveBeenCalled();
+        });
+
+        it('uses fallbackToDesktop for devices without a declared chain', () => {
+            const Press = defineAction('press', { fallbacks: { vr: [] } });
+            const desktop = jest.fn();
+            mapper.registerAction(Press, { desktop });
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('mobile') });
+
+            expect(desktop).toHaveBeenCalledTimes(1);
+        });
+
+        it('prefers the default handler over other devices', () => {
+            const Press = defineAction('press', { fallbacks: { vr: ['desktop'] } });
+            const handlers = { desktop: jest.fn(), default: jest.fn() };
+            mapper.registerAction(Press, handlers);
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(handlers.default).toHaveBeenCalledTimes(1);
+            expect(handlers.desktop).not.toHaveBeenCalled();
+        });
+
+        it('refuses mismatched handlers for strict actions and reports it', () => {
+            const Press = defineAction('press', { strict: true, fallbacks: { vr: ['desktop'] } });
+            const desktop = jest.fn();
+            mapper.registerAction(Press, { desktop });
+
+            mapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+
+            expect(desktop).not.toHaveBeenCalled();
+            expect(console.warn).toHaveBeenCalledWith(
+                "⛔ Strict action 'press' has no vr handler - refusing to run another device's handler"
+            );
+        });
+
+        it('applies strictMode to every action', () => {
+            const Shared = defineAction('shared');
+            const strictMapper = sim.attach(InputMapper, sim.createEntity('Mapper'), { strictMode: true });
+            const handlers = { desktop: jest.fn(), default: jest.fn() };
+            strictMapper.registerAction(Press, { desktop: handlers.desktop });
+            strictMapper.registerAction(Shared, { default: handlers.default });
+
+            strictMapper.trigger(Press, { player: sim.spawnPlayer('vr') });
+            strictMapper.trigger(Shared, { player: sim.spawnPlayer('vr') });
+
+            expect(handlers.desktop).not.toHaveBeenCalled();
+            expect(handlers.default).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('scopes', () => {
+        const DoorInteract = defineAction('door_interact');
+
+        it('keeps entity-scoped registrations of the same action apart', () => {
+            const doorA = sim.createEntity('DoorA');
+            const doorB = sim.createEntity('DoorB');
+            const handlerA = jest.fn();
+            const handlerB = jest.fn();
+            mapper.registerAction(DoorInteract, { vr: handlerA }, { scope: doorA });
+            mapper.registerAction(DoorInteract, { vr: handlerB }, { scope: doorB });
+
+            mapper.trigger(DoorInteract, { player: sim.spawnPlayer('vr'), entity: doorA });
+
+            expect(handlerA).toHaveBeenCalledTimes(1);
+            expect(handlerB).not.toHaveBeenCalled();
+            expect(console.warn).not.toHaveBeenCalled();
+        });
+
+        it('resolves namespace, then entity, then unscoped handlers', () => {
+            const entity = sim.createEntity('Button');
+            const unscoped = jest.fn();
+            const scoped = jest.fn();
+            const namespaced = jest.fn();
+            mapper.registerAction(Press, { vr: unscoped });
+            mapper.registerAction(Press, { vr: scoped }, { scope: entity });
+            mapper.registerAction(Press, { vr: namespaced }, { scope: 'lobby' });
+            const player = sim.spawnPlayer('vr');
+
+            mapper.trigger(Press, { player, entity, scope: 'lobby' });
+            mapper.trigger(Press, { player, entity });
+            mapper.trigger(Press, { player, entity: sim.createEntity('Other') });
+
+            expect(namespaced).toHaveBeenCalledTimes(1);
+            expect(scoped).toHaveBeenCalledTimes(1);
+            expect(unscoped).toHaveBeenCalledTimes(1);
+        });
+
+        it('unregisters one scope without touching the others', () => {
+            const doorA = sim.createEntity('DoorA');
+            const doorB = sim.createEntity('DoorB');
+            mapper.registerAction(DoorInteract, { vr: jest.fn() }, { scope: doorA });
+            mapper.registerAction(DoorInteract, { vr: jest.fn() }, { scope: doorB });
+
+            expect(mapper.unregisterAction(DoorInteract, doorA)).toBe(true);
+            expect(mapper.unregisterAction(DoorInteract, doorA)).toBe(false);
+            expect(mapper.getRegisteredActions()).toEqual(['door_interact']);
+
+            mapper.unregisterAction(DoorInteract, doorB);
+
+            expect(mapper.getRegisteredActions()).toEqual([]);
+        });
+    });
+
+    describe('setDeviceOverride', () => {
+        it('is ignored unless enableDeviceOverride is set', () => {
+            const player = sim.spawnPlayer('vr');
+            mapper.setDeviceOverride(player, 'mobile');
+
+            expect(mapper.detectDevice(player)).toBe('vr');
+        });
+
+        it('forces the device type when enabled', () => {
+            const overridable = sim.attach(InputMapper, sim.createEntity('Mapper'), { enableDeviceOverride: true });
+            const player = sim.createPlayer('vr');
+            overridable.setDeviceOverride(player, 'mobile');
+
+            expect(overridable.detectDevice(player)).toBe('mobile');
+        });
+    });
+
+    describe('player classification', () => {
+        it('recognizes the server player by identity, not by name', () => {
+            expect(mapper.classifyPlayer(sim.world.getServerPlayer())).toEqual({ category: 'server', device: 'desktop' });
+            expect(mapper.classifyPlayer(sim.spawnPlayer('vr', 'Server'))).toEqual({ category: 'human', device: 'vr' });
+        });
+
+        it('routes NPCs to their own handlers and counts them separately', async () => {
+            const Greet = defineAction('greet');
+            const npcs = new Set<number>();
+            mapper.addDetector(botDetector((player) => npcs.has(player.id)));
+            const bot = sim.createPlayer('desktop', 'Guard NPC');
+            npcs.add(bot.id);
+            sim.world.players.push(bot);
+            sim.world.dispatch(null, hz.CodeBlockEvents.OnPlayerEnterWorld, bot);
+            sim.spawnPlayer('desktop');
+            const handlers = { desktop: jest.fn(), categories: { npc: jest.fn() } };
+            mapper.registerAction(Greet, handlers);
+
+            const result = await mapper.trigger(Greet, { player: bot });
+
+            expect(handlers.categories.npc).toHaveBeenCalledTimes(1);
+            expect(handlers.desktop).not.toHaveBeenCalled();
+            expect(result.handlerSlot).toBe('category');
+            expect(mapper.getPlayerStats()).toMatchObject({ desktop: 1, categories: { human: 1, npc: 1 } });
+        });
+
+        it('routes custom categories by device when an action has no handler for them', () => {
+            const Wave = defineAction('wave');
+            mapper.addDetector(categoryDetector('spectator', (player) => player.name.get().startsWith('spec')));
+            const vr = jest.fn();
+            mapper.registerAction(Wave, { vr });
+            const spectator = sim.spawnPlayer('vr', 'spectator-1');
+
+            mapper.trigger(Wave, { player: spectator });
+
+            expect(mapper.classifyPlayer(spectator)).toEqual({ category: 'spectator', device: 'vr' });
+            expect(vr).toHaveBeenCalledTimes(1);
+        });
+
+        it('re-classifies players already in the world when the chain changes', () => {
+            const player = sim.spawnPlayer('mobile', 'tester');
+            const subscription = mapper.addDetector(categoryDetector('test_account', (p) => p.name.get() === 'tester'));
+
+            expect(mapper.classifyPlayer(player).category).toBe('test_account');
+
+            subscription.disconnect();
+
+            expect(mapper.classifyPlayer(player).category).toBe('human');
+        });
+
+        it('skips detectors that throw', () => {
+            mapper.addDetector(() => {
+                throw new Error('broken');
+            });
+
+            expect(mapper.detectDevice(sim.spawnPlayer('mobile'))).toBe('mobile');
+        });
+    });
+
+    describe('device changes', () => {
+        it('keeps the cached device until refreshDevice re-detects it', () => {
+            const listener = jest.fn();
+            mapper.onDeviceChanged(listener);
+            const player = sim.spawnPlayer('vr');
+
+            sim.switchDevice(player, 'desktop');
+            expect(mapper.detectDevice(player)).toBe('vr');
+
+            expect(mapper.refreshDevice(player)).toBe('desktop');
+            expect(mapper.detectDevice(player)).toBe('desktop');
+            expect(listener).toHaveBeenCalledWith(player, 'vr', 'desktop');
+        });
+
+        it('does not notify when the device is unchanged', () => {
+            const listener = jest.fn();
+            mapper.onDeviceChanged(listener);
+            const player = sim.spawnPlayer('mobile');
+
+            mapper.refreshDevice(player);
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it('re-checks every player on deviceRecheckInterval', () => {
+            jest.useFakeTimers();
+            try {
+                const rechecking = sim.attach(InputMapper, sim.createEntity('Mapper'), { deviceRecheckInterval: 5 });
+                const listener = jest.fn();
+                rechecking.onDeviceChanged(listener);
+                const player = sim.spawnPlayer('vr');
+
+                sim.switchDevice(player, 'mobile');
+                jest.advanceTimersByTime(5000);
+
+                expect(listener).toHaveBeenCalledWith(player, 'vr', 'mobile');
+                sim.detach(rechecking);
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        it('layers overrides over detection and notifies on both edges', () => {
+            const overridable = sim.attach(InputMapper, sim.createEntity('Mapper'), { enableDeviceOverride: true });
+            const listener = jest.fn();
+            overridable.onDeviceChanged(listener);
+            const player = sim.spawnPlayer('vr');
+
+            overridable.setDeviceOverride(player, 'mobile');
+            sim.switchDevice(player, 'desktop');
+            overridable.refreshDevice(player);
+            expect(overridable.detectDevice(player)).toBe('mobile');
+
+            overridable.clearDeviceOverride(player);
+            expect(overridable.detectDevice(player)).toBe('desktop');
+
+            expect(listener.mock.calls).toEqual([
+                [player, 'vr', 'mobile'],
+                [player, 'mobile', 'desktop'],
+            ]);
+        });
+
+        it('stops notifying once disconnected', () => {
+            const listener = jest.fn();
+            mapper.onDeviceChanged(listener).disconnect();
+            const player = sim.spawnPlayer('vr');
+
+            sim.switchDevice(player, 'mobile');
+            mapper.refreshDevice(player);
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('device profiles', () => {
+        it('derives capabilities from the device type', () => {
+            expect(mapper.getDeviceProfile(sim.spawnPlayer('vr'))).toEqual({
+                type: 'vr', hasHands: true, handTracking: false, hasTouch: false, hasPointer: false, hasGamepad: false, screen: 'headset',
+            });
+            expect(mapper.getDeviceProfile(sim.spawnPlayer('mobile'))).toMatchObject({ hasTouch: true, screen: 'phone' });
+            expect(mapper.getDeviceProfile(sim.spawnPlayer('desktop'))).toMatchObject({ hasPointer: true, screen: 'monitor' });
+        });
+
+        it('layers reported capabilities over the defaults until the device changes', () => {
+            const player = sim.spawnPlayer('mobile');
+
+            mapper.reportCapabilities(player, { screen: 'tablet' });
+            mapper.reportCapabilities(player, { hasGamepad: true });
+            expect(mapper.getDeviceProfile(player)).toMatchObject({ type: 'mobile', screen: 'tablet', hasGamepad: true });
+
+            sim.switchDevice(player, 'desktop');
+            mapper.refreshDevice(player);
+            expect(mapper.getDeviceProfile(player)).toMatchObject({ type: 'desktop', screen: 'monitor', hasGamepad: false });
+        });
+
+        it('routes to the first matching capability handler before device handlers', async () => {
+            const Aim = defineAction('aim');
+            const tablet = jest.fn();
+            const gamepad = jest.fn();
+            const mobile = jest.fn();
+            mapper.registerAction(Aim, {
+                mobile,
+                capabilities: [
+                    { when: { screen: 'tablet' }, handler: tablet },
+                    { when: (profile) => profile.hasGamepad, handler: gamepad },
+                ],
+            });
+            const phone = sim.spawnPlayer('mobile');
+            const pad = sim.spawnPlayer('mobile');
+            mapper.reportCapabilities(pad, { screen: 'tablet', hasGamepad: true });
+
+            await mapper.trigger(Aim, { player: phone });
+            const result = await mapper.trigger(Aim, { player: pad });
+
+            expect(mobile).toHaveBeenCalledTimes(1);
+            expect(tablet).toHaveBeenCalledTimes(1);
+            expect(gamepad).not.toHaveBeenCalled();
+            expect(result.handlerSlot).toBe('capability');
+        });
+
+        it('falls back to device handlers when no capability matches', () => {
+            const Pinch = defineAction('pinch');
+            const handTracked = jest.fn();
+            const vr = jest.fn();
+            mapper.registerAction(Pinch, { vr, capabilities: [{ when: { handTracking: true }, handler: handTracked }] });
+
+            mapper.trigger(Pinch, { player: sim.spawnPlayer('vr') });
+
+            expect(vr).toHaveBeenCalledTimes(1);
+            expect(handTracked).not.toHaveBeenCalled();
+        });
+
+        it('reports a throwing capability check as an error instead of rejecting', async () => {
+            const Pinch = defineAction('pinch');
+            const error = new Error('bad check');
+            const vr = jest.fn();
+            mapper.registerAction(Pinch, { vr, capabilities: [{ when: () => { throw error; }, handler: jest.fn() }] });
+
+            const result = await mapper.trigger(Pinch, { player: sim.spawnPlayer('vr') });
+
+            expect(result).toMatchObject({ status: 'errored', error });
+            expect(vr).not.toHaveBeenCalled();
+            expect(console.error).toHaveBeenCalledWith("❌ Handler selection error in 'pinch':", error);
+        });
+    });
+
+    describe('player bookkeeping', () => {
+        it('counts players by device as they join and leave', () => {
+            sim.spawnPlayer('vr');
+            const mobile = sim.spawnPlayer('mobile');
+            sim.spawnPlayer('desktop');
+
+            expect(mapper.getPlayerStats()).toEqual({ total: 3, vr: 1, mobile: 1, desktop: 1, categories: { human: 3 } });
+
+            sim.removePlayer(mobile);
+
+            expect(mapper.getPlayerStats()).toEqual({ total: 2, vr: 1, mobile: 0, desktop: 1, categories: { human: 2 } });
+        });
+
+        it('only counts players who entered the world', () => {
+            sim.spawnPlayer('vr');
+            mapper.detectDevice(sim.createPlayer('mobile'));
+            sim.world.dispatch(null, hz.CodeBlockEvents.OnPlayerEnterWorld, sim.world.getServerPlayer());
+
+            expect(mapper.getPlayerStats()).toEqual({ total: 1, vr: 1, mobile: 0, desktop: 0, categories: { human: 1 } });
+        });
+
+        it('records device switches in the registry', () => {
+            const player = sim.spawnPlayer('vr');
+
+            sim.switchDevice(player, 'mobile');
+            mapper.refreshDevice(player);
+
+            expect(mapper.players.get(player)?.history.map((entry) => entry.device)).toEqual(['vr', 'mobile']);
+        });
+    });
+
+    describe('action registry', () => {
+        it('lists and clears registered actions', () => {
+            mapper.registerAction(defineAction('a'), { vr: jest.fn() });
+            mapper.registerAction(defineAction('b'), { vr: jest.fn() });
+
+            expect(mapper.getRegisteredActions()).toEqual(['a', 'b']);
+
+            mapper.clearAllActions();
+
+            expect(mapper.getRegisteredActions()).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,114 @@
+import * as hz from 'horizon/core';
+import { ActionInfo } from '../src/inputMapper';
+import { KeycardTracker, requireKeycard } from '../src/keycards';
+import { TestWorld } from './harness';
+
+class KeycardHost extends hz.Component<typeof KeycardHost> {
+    static propsDefinition = {};
+    start() {}
+}
+
+describe('keycards', () => {
+    let sim: TestWorld;
+    let host: KeycardHost;
+    const info: ActionInfo = { actionName: 'door_interact', deviceType: 'desktop' };
+
+    beforeEach(() => {
+        sim = new TestWorld();
+        host = sim.attach(KeycardHost, sim.createEntity('Host'));
+    });
+
+    describe('KeycardTracker', () => {
+        it('knows who is holding a tagged entity', () => {
+            const keycard = sim.createEntity('Keycard', ['keycard']);
+            const tracker = new KeycardTracker(host);
+            const player = sim.createPlayer('vr');
+
+            sim.grab(keycard, player);
+            expect(tracker.isHolding(player)).toBe(true);
+
+            sim.release(keycard, player);
+            expect(tracker.isHolding(player)).toBe(false);
+        });
+
+        it('ignores entities without the tag', () => {
+            const prop = sim.createEntity('Prop');
+            const tracker = new KeycardTracker(host);
+            const player = sim.createPlayer('vr');
+
+            sim.grab(prop, player);
+
+            expect(tracker.isHolding(player)).toBe(false);
+        });
+
+        it('knows who owns a keycard', () => {
+            const keycard = sim.createEntity('Keycard', ['keycard']);
+            const tracker = new KeycardTracker(host);
+            const player = sim.createPlayer('mobile');
+
+            expect(tracker.owns(player)).toBe(false);
+            keycard.owner.set(player);
+            expect(tracker.owns(player)).toBe(true);
+        });
+
+        it('finds keycards spawned later after refresh()', () => {
+            const tracker = new KeycardTracker(host);
+            const keycard = sim.createEntity('Keycard', ['keycard']);
+            const player = sim.createPlayer('vr');
+
+            sim.grab(keycard, player);
+            expect(tracker.isHolding(player)).toBe(false);
+
+            tracker.refresh();
+            sim.grab(keycard, player);
+            expect(tracker.isHolding(player)).toBe(true);
+        });
+
+        it('stops listening once disposed', () => {
+            const keycard = sim.createEntity('Keycard', ['keycard']);
+            const tracker = new KeycardTracker(host);
+            const player = sim.createPlayer('vr');
+
+            tracker.dispose();
+            sim.grab(keycard, player);
+
+            expect(tracker.isHolding(player)).toBe(false);
+        });
+    });
+
+    describe('requireKeycard', () => {
+        it('accepts held or owned keycards by default', () => {
+            const held = sim.createEntity('Held', ['keycard']);
+            const owned = sim.createEntity('Owned', ['keycard']);
+            const tracker = new KeycardTracker(host);
+            const holder = sim.createPlayer('vr');
+            const owner = sim.createPlayer('vr');
+            const guard = requireKeycard(tracker);
+
+            sim.grab(held, holder);
+            owned.owner.set(owner);
+
+            expect(guard({ player: holder }, info)).toBeUndefined();
+            expect(guard({ player: owner }, info)).toBeUndefined();
+            expect(guard({ player: sim.createPlayer('vr') }, info)).toBe('Pick up a keycard to open this');
+        });
+
+        it('can insist on a keycard in hand', () => {
+            const keycard = sim.createEntity('Keycard', ['keycard']);
+            const tracker = new KeycardTracker(host);
+            const player = sim.createPlayer('vr');
+            keycard.owner.set(player);
+
+            expect(requireKeycard(tracker, 'held')({ player }, { ...info, deviceType: 'vr' }))
+                .toBe('Hold a keycard in your hand to open this');
+            expect(requireKeycard(tracker, 'owned')({ player }, info)).toBeUndefined();
+        });
+
+        it('uses custom reasons per device', () => {
+            const tracker = new KeycardTracker(host);
+            const guard = requireKeycard(tracker, 'either', { vr: 'v', mobile: 'm', desktop: 'd' });
+
+            expect(guard({ player: sim.createPlayer('mobile') }, { ...info, deviceType: 'mobile' })).toBe('m');
+        });
+    });
+});
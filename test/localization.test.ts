@@ -0,0 +1,114 @@
+import * as hz from 'horizon/core';
+import { allowPlayers, requireTeam } from '../src/guards';
+import { HintService } from '../src/hints';
+import { InputMapper } from '../src/inputMapper';
+import { Localization, localization } from '../src/localization';
+import { EN } from '../src/locales/en';
+import { TestWorld } from './harness';
+
+class LocalizedHost extends hz.Component<typeof LocalizedHost> {
+    static propsDefinition = {};
+    start() {}
+}
+
+describe('Localization', () => {
+    let sim: TestWorld;
+    let strings: Localization;
+
+    beforeEach(() => {
+        sim = new TestWorld();
+        strings = new Localization();
+        strings.addLocale('en', {
+            greeting: 'Hello, {name}!',
+            coins: { zero: 'No coins', one: '{count} coin', other: '{count} coins' },
+            bye: 'Bye',
+        });
+        strings.addLocale('pt', {
+            greeting: 'Olá, {name}!',
+            coins: { one: '{count} moeda', other: '{count} moedas' },
+        });
+    });
+
+    it('fills in placeholders, leaving unknown ones alone', () => {
+        expect(strings.translate('en', 'greeting', { name: 'Sam' })).toBe('Hello, Sam!');
+        expect(strings.translate('en', 'greeting')).toBe('Hello, {name}!');
+    });
+
+    it('picks plural forms by count', () => {
+        expect(strings.translate('en', 'coins', { count: 0 })).toBe('No coins');
+        expect(strings.translate('en', 'coins', { count: 1 })).toBe('1 coin');
+        expect(strings.translate('en', 'coins', { count: 5 })).toBe('5 coins');
+        expect(strings.translate('pt', 'coins', { count: 3 })).toBe('3 moedas');
+    });
+
+    it('translates per player, falling back to language then English', () => {
+        const player = sim.createPlayer('vr');
+        expect(strings.getPlayerLocale(player)).toBe('en');
+
+        strings.setPlayerLocale(player, 'pt-BR');
+
+        expect(strings.translate(player, 'greeting', { name: 'Ana' })).toBe('Olá, Ana!');
+        expect(strings.translate(player, 'bye')).toBe('Bye');
+        expect(strings.translate(player, 'missing.id')).toBe('missing.id');
+    });
+
+    it('warns about locales it has no messages for', () => {
+        const player = sim.createPlayer('mobile', 'Sam');
+
+        strings.setPlayerLocale(player, 'fr');
+
+        expect(console.warn).toHaveBeenCalledWith("⚠️ Localization: No messages for 'fr' - Sam will see en");
+        expect(strings.translate(player, 'bye')).toBe('Bye');
+    });
+
+    it('localizes message IDs and passes plain text through', () => {
+        expect(strings.localize('pt', 'greeting', { name: 'Ana' })).toBe('Olá, Ana!');
+        expect(strings.localize('pt', 'Closed for {reason}', { reason: 'repairs' })).toBe('Closed for repairs');
+    });
+
+    it('merges messages into an existing locale', () => {
+        strings.addLocale('en', { bye: 'See you' });
+
+        expect(strings.translate('en', 'bye')).toBe('See you');
+        expect(strings.translate('en', 'coins', { count: 2 })).toBe('2 coins');
+        expect(strings.getLocales()).toEqual(['en', 'pt']);
+    });
+
+    describe('shared instance', () => {
+        let player: hz.Player;
+
+        beforeEach(() => {
+            player = sim.spawnPlayer('mobile', 'Ana');
+            localization.setPlayerLocale(player, 'es');
+        });
+
+        afterEach(() => {
+            localization.clearPlayerLocale(player);
+        });
+
+        it('has every bundled message in every bundled locale or English', () => {
+            for (const locale of localization.getLocales()) {
+                for (const id of Object.keys(EN)) {
+                    expect(localization.translate(locale, id)).not.toBe(id);
+                }
+            }
+        });
+
+        it('words guard reasons in the player\'s language', () => {
+            const info = { actionName: 'door_interact', deviceType: 'mobile' as const };
+
+            expect(allowPlayers([])({ player }, info)).toBe('No estás en la lista');
+            expect(requireTeam(() => undefined, ['rojo', 'azul'])({ player }, info)).toBe('Solo el equipo rojo o azul puede hacer esto');
+            expect(allowPlayers([], 'Private party')({ player }, info)).toBe('Private party');
+        });
+
+        it('words hints in the player\'s language, device verbs included', () => {
+            const mapper = sim.attach(InputMapper, sim.createEntity('InputMapper_System'));
+            const hints = new HintService(sim.attach(LocalizedHost, sim.createEntity('Door')), mapper);
+
+            hints.show(player, { target: 'door.target', action: 'door.open' });
+
+            expect(console.log).toHaveBeenCalledWith('💡 Ana: Toca la puerta para abrir');
+        });
+    });
+});
@@ -0,0 +1,60 @@
+import { PlayerRegistry } from '../src/playerRegistry';
+import { TestWorld } from './harness';
+
+describe('PlayerRegistry', () => {
+    let sim: TestWorld;
+    let registry: PlayerRegistry;
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: 0 });
+        sim = new TestWorld();
+        registry = new PlayerRegistry();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('ignores duplicate joins and leaves of unknown players', () => {
+        const player = sim.createPlayer('vr');
+
+        expect(registry.join(player, 'vr')).toBeDefined();
+        expect(registry.join(player, 'vr')).toBeUndefined();
+        expect(registry.leave(sim.createPlayer('mobile'))).toBeUndefined();
+        expect(registry.count).toBe(1);
+    });
+
+    it('keeps device history and session duration', () => {
+        const player = sim.createPlayer('vr');
+        registry.join(player, 'vr');
+
+        jest.advanceTimersByTime(30_000);
+        registry.recordDevice(player, 'desktop');
+        registry.recordDevice(player, 'desktop');
+        jest.advanceTimersByTime(15_000);
+
+        expect(registry.get(player)?.history).toEqual([
+            { device: 'vr', since: 0 },
+            { device: 'desktop', since: 30_000 },
+        ]);
+        expect(registry.getSessionDuration(player)).toBe(45);
+    });
+
+    it('raises join and leave events with the final record', () => {
+        const joined = jest.fn();
+        const left = jest.fn();
+        registry.onJoin(joined);
+        registry.onLeave(left);
+        const player = sim.createPlayer('mobile');
+
+        registry.join(player, 'mobile');
+        jest.advanceTimersByTime(10_000);
+        registry.leave(player);
+
+        expect(joined).toHaveBeenCalledWith(expect.objectContaining({ player, joinedAt: 0 }));
+        const record = left.mock.calls[0][0];
+        expect(record.leftAt).toBe(10_000);
+        expect(registry.getSessionDuration(record)).toBe(10);
+        expect(registry.has(player)).toBe(false);
+    });
+});
@@ -0,0 +1,874 @@
+import * as hz from 'horizon/core';
+import { FeedbackService } from '../../src/feedback';
+import { InputMapper } from '../../src/inputMapper';
+import { localization } from '../../src/localization';
+import { DoorCodeBlockEvents, DoorStateChangedEvent, UniversalDoor } from '../../src/prefabs/Door';
+import { TestWorld } from '../harness';
+
+describe('UniversalDoor', () => {
+    let sim: TestWorld;
+    let mapper: InputMapper;
+    let trigger: hz.Entity;
+
+    const createDoor = (props: Partial<UniversalDoor['props']> = {}) => {
+        const mapperEntity = sim.createEntity('InputMapper_System');
+        mapper = sim.attach(InputMapper, mapperEntity);
+        trigger = sim.createEntity('DoorTrigger');
+
+        return sim.attach(UniversalDoor, sim.createEntity('MyDoor'), {
+            inputMapper: mapperEntity,
+            interactionTrigger: trigger,
+            ...props,
+        });
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        sim = new TestWorld();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('connects to the InputMapper and registers door_interact', () => {
+        createDoor();
+
+        expect(mapper.getRegisteredActions()).toContain('door_interact');
+    });
+
+    it.each(['vr', 'mobile', 'desktop'] as const)('opens when a %s player grabs the trigger', async (device) => {
+        const door = createDoor();
+        const player = sim.spawnPlayer(device);
+
+        sim.grab(trigger, player);
+
+        expect(door.getDoorState()).toEqual({ isOpen: true, isAnimating: true });
+
+        await jest.advanceTimersByTimeAsync(1100);
+
+        expect(door.getDoorState()).toEqual({ isOpen: true, isAnimating: false });
+    });
+
+    it('turns around when grabbed mid-swing', async () => {
+        const door = createDoor();
+        const player = sim.spawnPlayer('vr');
+
+        sim.grab(trigger, player);
+        await jest.advanceTimersByTimeAsync(400);
+        const swungTo = door.entity.rotation.get().toEuler().y;
+
+        sim.grab(trigger, player);
+        expect(door.getState()).toBe('closing');
+
+        await jest.advanceTimersByTimeAsync(200);
+        expect(door.entity.rotation.get().toEuler().y).toBeLessThan(swungTo);
+
+        await jest.advanceTimersByTimeAsync(300);
+        expect(door.getState()).toBe('closed');
+        expect(door.entity.rotation.get().toEuler().y).toBeCloseTo(0);
+    });
+
+    it('auto-closes after autoCloseDelay', async () => {
+        const door = createDoor({ autoCloseDelay: 2 });
+
+        sim.grab(trigger, sim.spawnPlayer('vr'));
+        await jest.advanceTimersByTimeAsync(1100);
+        expect(door.getDoorState().isOpen).toBe(true);
+
+        await jest.advanceTimersByTimeAsync(2000);
+        expect(door.getDoorState()).toEqual({ isOpen: false, isAnimating: true });
+
+        await jest.advanceTimersByTimeAsync(1100);
+        expect(door.getDoorState()).toEqual({ isOpen: false, isAnimating: false });
+    });
+
+    it('stays open when autoCloseDelay is 0', async () => {
+        const door = createDoor({ autoCloseDelay: 0 });
+
+        sim.grab(trigger, sim.spawnPlayer('vr'));
+        await jest.advanceTimersByTimeAsync(60_000);
+
+        expect(door.getDoorState().isOpen).toBe(true);
+    });
+
+    it('stays closed when requireKeycard is set and the player has no keycard', async () => {
+        const door = createDoor({ requireKeycard: true });
+
+        sim.grab(trigger, sim.spawnPlayer('desktop'));
+        await jest.advanceTimersByTimeAsync(1100);
+
+        expect(door.getDoorState().isOpen).toBe(false);
+        expect(console.log).toHaveBeenCalledWith('🔒 desktop-player-1 can\'t use the door: Pick up a keycard to open this');
+    });
+
+    describe('feedback', () => {
+        const createFeedback = () => {
+            const entity = sim.createEntity('Feedback_System');
+            const interactSound = sim.createEntity('Click');
+            sim.attach(FeedbackService, entity, { interactSound });
+            return { entity, interactSound };
+        };
+
+        it('plays the interact cue for the player who used the door', () => {
+            const { entity, interactSound } = createFeedback();
+            createDoor({ feedback: entity });
+            const player = sim.spawnPlayer('vr');
+
+            sim.grab(trigger, player, false);
+
+            expect(player.leftHand.haptics).toHaveLength(1);
+            expect(interactSound.gizmoPlays).toEqual([{ players: [player] }]);
+        });
+
+        it('sends denials through the feedback service', async () => {
+            const { entity } = createFeedback();
+            const door = createDoor({ feedback: entity });
+            const player = sim.spawnPlayer('mobile');
+            door.lock();
+
+            sim.grab(trigger, player);
+            await jest.advanceTimersByTimeAsync(0);
+
+            expect(sim.world.ui.popups).toEqual([{ player, text: '🔒 The door is locked', displayTime: 2 }]);
+        });
+
+        it('warns when the feedback object has no FeedbackService', () => {
+            createDoor({ feedback: sim.createEntity('Empty') });
+
+            expect(console.warn).toHaveBeenCalledWith('⚠️ Universal Door: Could not find FeedbackService script on the feedback object - using popups only');
+        });
+    });
+
+    describe('interact button', () => {
+        it.each(['mobile', 'desktop'] as const)('opens when a %s player presses Interact in the zone', async (device) => {
+            const door = createDoor();
+            const player = sim.spawnPlayer(device);
+            sim.attachLocal(player, InputMapper, mapper.entity);
+            sim.attachLocal(player, UniversalDoor, door.entity, { inputMapper: mapper.entity, interactionTrigger: trigger });
+
+            sim.pressInput(hz.PlayerInputAction.RightPrimary);
+            await jest.advanceTimersByTimeAsync(0);
+            expect(door.getState()).toBe('closed');
+
+            sim.enterTrigger(trigger, player);
+            sim.pressInput(hz.PlayerInputAction.RightPrimary);
+            await jest.advanceTimersByTimeAsync(0);
+
+            expect(door.getState()).toBe('opening');
+            expect(console.log).toHaveBeenCalledWith(device === 'mobile'
+                ? `📱 Mobile user ${player.name.get()} tapped the door`
+                : `🖥️ Desktop user ${player.name.get()} clicked the door`);
+        });
+    });
+
+    describe('focus', () => {
+        it('lets only the door the player aims at react when triggers overlap', async () => {
+            const mapperEntity = sim.createEntity('InputMapper_System');
+            sim.attach(InputMapper, mapperEntity);
+            const sharedZone = sim.createEntity('DoorTrigger');
+            const outline = sim.createEntity('Outline');
+            const [left, right] = [-1, 1].map((x) => {
+                const entity = sim.createEntity(x < 0 ? 'LeftDoor' : 'RightDoor');
+                entity.position.set(new hz.Vec3(x, 0, 2));
+                return sim.attach(UniversalDoor, entity, {
+                    inputMapper: mapperEntity,
+                    interactionTrigger: sharedZone,
+                    useFocus: true,
+                    focusHighlight: x < 0 ? undefined : outline,
+                });
+            });
+            const player = sim.spawnPlayer('vr');
+            player.head.forward.set(new hz.Vec3(1, 0, 2));
+
+            sim.grab(sharedZone, player);
+            await jest.advanceTimersByTimeAsync(0);
+
+            expect(right.getState()).toBe('opening');
+            expect(left.getState()).toBe('closed');
+            expect(outline.visibility.get()?.players).toEqual([player]);
+        });
+    });
+
+    describe('access control', () => {
+        it('opens for a player holding a keycard', async () => {
+            const keycard = sim.createEntity('Keycard', ['keycard']);
+            const door = createDoor({ requireKeycard: true });
+            const player = sim.spawnPlayer('vr');
+
+            sim.grab(keycard, player);
+            sim.grab(trigger, player);
+
+            expect(door.getState()).toBe('opening');
+        });
+
+        it('stops counting a keycard once it is put down', async () => {
+            const keycard = sim.createEntity('Keycard', ['keycard']);
+            const door = createDoor({ requireKeycard: true });
+            const player = sim.spawnPlayer('vr');
+
+            sim.grab(keycard, player);
+            sim.release(keycard, player);
+            sim.grab(trigger, player);
+
+            expect(door.getState()).toBe('closed');
+        });
+
+        it('lets a player without a keycard close the door', async () => {
+            const keycard = sim.createEntity('Keycard', ['keycard']);
+            const door = createDoor({ requireKeycard: true, autoCloseDelay: 0 });
+            const holder = sim.spawnPlayer('vr');
+            sim.grab(keycard, holder);
+            sim.grab(trigger, holder);
+            await jest.advanceTimersByTimeAsync(1100);
+
+            sim.grab(trigger, sim.spawnPlayer('mobile'));
+
+            expect(door.getState()).toBe('closing');
+        });
+
+                it('opens for a player who owns a keycard with a custom tag', async () => {
+            const keycard = sim.createEntity('RedCard', ['red_card']);
+            const door = createDoor({ requireKeycard: true, keycardTag: 'red_card' });
+            const player = sim.spawnPlayer('mobile');
+
+            keycard.owner.set(player);
+            sim.grab(trigger, player);
+
+            expect(door.getState()).toBe('opening');
+        });
+
+        it('only opens for allowedPlayers', async () => {
+            const door = createDoor({ allowedPlayers: 'Sam, Alex' });
+
+            sim.grab(trigger, sim.spawnPlayer('vr', 'Robin'));
+            expect(door.getState()).toBe('closed');
+
+            sim.grab(trigger, sim.spawnPlayer('vr', 'Alex'));
+            expect(door.getState()).toBe('opening');
+        });
+
+        it('turns strangers away in their own language', async () => {
+            createDoor({ allowedPlayers: 'Alex' });
+            const player = sim.spawnPlayer('mobile', 'Ana');
+            localization.setPlayerLocale(player, 'es');
+
+            sim.grab(trigger, player);
+            await jest.advanceTimersByTimeAsync(0);
+            localization.clearPlayerLocale(player);
+
+            expect(sim.world.ui.popups).toEqual([{ player, text: '🔒 Esta puerta no es para ti', displayTime: 2 }]);
+        });
+
+        it('runs added policies until they are disconnected', async () => {
+            const door = createDoor();
+            const player = sim.spawnPlayer('desktop');
+            const policy = door.addAccessPolicy(() => 'Staff only');
+
+            sim.grab(trigger, player);
+            expect(door.getState()).toBe('closed');
+
+            policy.disconnect();
+            sim.grab(trigger, player);
+            expect(door.getState()).toBe('opening');
+        });
+
+        it('shows the reason as a popup, with a buzz in VR', async () => {
+            const door = createDoor();
+            const vrPlayer = sim.spawnPlayer('vr');
+            const mobilePlayer = sim.spawnPlayer('mobile');
+            door.lock('Closed for repairs');
+
+            sim.grab(trigger, vrPlayer);
+            sim.grab(trigger, mobilePlayer);
+            await jest.advanceTimersByTimeAsync(0);
+
+            expect(sim.world.ui.popups).toEqual([
+                { player: vrPlayer, text: '🔒 Closed for repairs', displayTime: 2 },
+                { player: mobilePlayer, text: '🔒 Closed for repairs', displayTime: 2 },
+            ]);
+            expect(vrPlayer.rightHand.haptics).toHaveLength(1);
+            expect(mobilePlayer.rightHand.haptics).toHaveLength(0);
+        });
+    });
+
+    it('rotates the door entity while opening', async () => {
+        const door = createDoor({ openAngle: 90 });
+
+        sim.grab(trigger, sim.spawnPlayer('vr'));
+        await jest.advanceTimersByTimeAsync(1100);
+
+        expect(door.entity.rotation.get().toEuler().y).toBeCloseTo(90);
+    });
+
+    it('swings around its vertical axis without distorting the rotation', async () => {
+        const door = createDoor({ openAngle: 90 });
+
+        sim.grab(trigger, sim.spawnPlayer('vr'));
+        await jest.advanceTimersByTimeAsync(500);
+
+        const rotation = door.entity.rotation.get();
+        const euler = rotation.toEuler();
+        expect(Math.hypot(rotation.x, rotation.y, rotation.z, rotation.w)).toBeCloseTo(1);
+        expect(euler.y).toBeGreaterThan(0);
+        expect(euler.y).toBeLessThan(90);
+        expect(euler.x).toBeCloseTo(0);
+        expect(euler.z).toBeCloseTo(0);
+    });
+
+    it('treats openSpeed as a speed multiplier', async () => {
+        const door = createDoor({ openSpeed: 2 });
+
+        sim.grab(trigger, sim.spawnPlayer('vr'));
+        await jest.advanceTimersByTimeAsync(550);
+
+        expect(door.getDoorState()).toEqual({ isOpen: true, isAnimating: false });
+    });
+
+    it('supports forceDoorOpen and forceDoorClose', async () => {
+        const door = createDoor({ autoCloseDelay: 0 });
+
+        door.forceDoorOpen();
+        await jest.advanceTimersByTimeAsync(1100);
+        expect(door.getDoorState().isOpen).toBe(true);
+
+        door.forceDoorClose();
+        await jest.advanceTimersByTimeAsync(1100);
+        expect(door.getDoorState().isOpen).toBe(false);
+    });
+
+    it('toggles only the door that was grabbed when several share an InputMapper', async () => {
+        const first = createDoor();
+        const firstTrigger = trigger;
+        const secondTrigger = sim.createEntity('SecondTrigger');
+        const second = sim.attach(UniversalDoor, sim.createEntity('SecondDoor'), {
+            inputMapper: first.props.inputMapper,
+            interactionTrigger: secondTrigger,
+        });
+
+        sim.grab(firstTrigger, sim.spawnPlayer('vr'));
+        await jest.advanceTimersByTimeAsync(1100);
+
+        expect(first.getDoorState().isOpen).toBe(true);
+        expect(second.getDoorState().isOpen).toBe(false);
+    });
+
+    it('unregisters its handlers when disposed', () => {
+        const door = createDoor();
+
+        sim.detach(door);
+
+        expect(mapper.getRegisteredActions()).not.toContain('door_interact');
+    });
+
+    it('logs device-specific hints on trigger enter and exit', () => {
+        createDoor();
+        const player = sim.spawnPlayer('mobile', 'Sam');
+
+        sim.enterTrigger(trigger, player);
+        sim.exitTrigger(trigger, player);
+
+        expect(console.log).toHaveBeenCalledWith('💡 Sam: Tap the door to open');
+        expect(console.log).toHaveBeenCalledWith('👋 Sam moved away from door');
+    });
+
+    it('refreshes the hint when a nearby player switches device', () => {
+        createDoor();
+        const player = sim.spawnPlayer('vr', 'Sam');
+        sim.enterTrigger(trigger, player);
+
+        sim.switchDevice(player, 'desktop');
+        mapper.refreshDevice(player);
+
+        expect(console.log).toHaveBeenCalledWith('💡 Sam: Grab the door handle to open');
+        expect(console.log).toHaveBeenCalledWith('💡 Sam: Click the door to open');
+    });
+
+    it('rewords the hint when the door opens', async () => {
+        createDoor({ autoCloseDelay: 0 });
+        const player = sim.spawnPlayer('desktop', 'Sam');
+        sim.enterTrigger(trigger, player);
+
+        sim.grab(trigger, player);
+        await jest.advanceTimersByTimeAsync(1100);
+
+        expect(console.log).toHaveBeenCalledWith('💡 Sam: Click the door to close');
+    });
+
+    it('shows hints as popups or on a label', () => {
+        const label = sim.createEntity('HintLabel');
+        createDoor({ hintStyle: 'popup' });
+        const popupTrigger = trigger;
+        createDoor({ hintStyle: 'label', hintLabel: label });
+        const player = sim.spawnPlayer('mobile');
+
+        sim.enterTrigger(popupTrigger, player);
+        sim.enterTrigger(trigger, player);
+
+        expect(sim.world.ui.popups).toEqual([{ player, text: 'Tap the door to open', displayTime: 3 }]);
+        expect(label.as(hz.TextGizmo).text.get()).toBe('Tap the door to open');
+
+        sim.exitTrigger(trigger, player);
+        expect(label.visibility.get()?.players).toEqual([]);
+    });
+
+    describe('automatic doors', () => {
+        it('opens when an allowed player walks into the trigger', async () => {
+            const door = createDoor({ autoOpen: true, autoCloseDelay: 0 });
+
+            sim.enterTrigger(trigger, sim.spawnPlayer('mobile'));
+            expect(door.getState()).toBe('opening');
+
+            await jest.advanceTimersByTimeAsync(1100);
+            expect(door.getState()).toBe('open');
+        });
+
+        it('turns around for a player who walks up while it is closing', async () => {
+            const door = createDoor({ autoOpen: true, autoCloseDelay: 0 });
+            sim.grab(trigger, sim.spawnPlayer('vr'));
+            await jest.advanceTimersByTimeAsync(1100);
+            door.forceDoorClose();
+            await jest.advanceTimersByTimeAsync(300);
+
+            sim.enterTrigger(trigger, sim.spawnPlayer('desktop'));
+
+            expect(door.getState()).toBe('opening');
+        });
+
+        it('stays shut for locked doors and players without access', async () => {
+            const door = createDoor({ autoOpen: true, allowedPlayers: 'Alex' });
+            const stranger = sim.spawnPlayer('desktop', 'Sam');
+
+            sim.enterTrigger(trigger, stranger);
+            await jest.advanceTimersByTimeAsync(1100);
+            expect(door.getState()).toBe('closed');
+            expect(sim.world.ui.popups).toEqual([{ player: stranger, text: "🔒 This door isn't for you", displayTime: 2 }]);
+
+            door.lock('Closed for cleaning');
+            sim.enterTrigger(trigger, sim.spawnPlayer('desktop', 'Alex'));
+            await jest.advanceTimersByTimeAsync(1100);
+            expect(door.getState()).toBe('locked');
+        });
+
+        it('opens through the InputMapper, so its middleware and listeners see walk-ups', async () => {
+            const door = createDoor({ autoOpen: true, autoCloseDelay: 0 });
+            const intents: string[] = [];
+            const rejected = jest.fn();
+            mapper.use((ctx, info, next) => {
+                intents.push(`${info.actionName}:${ctx.data.intent}`);
+                return next();
+            });
+            mapper.onRejected(rejected);
+
+            sim.enterTrigger(trigger, sim.spawnPlayer('mobile'));
+            await jest.advanceTimersByTimeAsync(1100);
+            sim.enterTrigger(trigger, sim.spawnPlayer('vr'));
+            door.lock();
+            await jest.advanceTimersByTimeAsync(1100);
+            sim.enterTrigger(trigger, sim.spawnPlayer('desktop'));
+
+            expect(intents).toEqual(['door_interact:open', 'door_interact:open']);
+            expect(rejected).toHaveBeenCalledWith(expect.objectContaining({ reason: 'The door is locked' }));
+        });
+
+        it('skips the interaction hint', () => {
+            createDoor({ autoOpen: true });
+
+            sim.enterTrigger(trigger, sim.spawnPlayer('mobile', 'Sam'));
+
+            expect(console.log).not.toHaveBeenCalledWith('💡 Sam: Tap the door to open');
+        });
+    });
+
+    describe('occupancy', () => {
+        it('tracks who is standing in the trigger', () => {
+            const door = createDoor();
+            const first = sim.spawnPlayer('vr');
+            const second = sim.spawnPlayer('mobile');
+
+            sim.enterTrigger(trigger, first);
+            sim.enterTrigger(trigger, second);
+            sim.exitTrigger(trigger, first);
+
+            expect(door.getOccupants()).toEqual([second]);
+        });
+
+        it('waits for the trigger to empty before auto-closing', async () => {
+            const door = createDoor({ autoCloseDelay: 2 });
+            const first = sim.spawnPlayer('vr');
+            const second = sim.spawnPlayer('desktop');
+            sim.enterTrigger(trigger, first);
+            sim.enterTrigger(trigger, second);
+
+            sim.grab(trigger, first);
+            await jest.advanceTimersByTimeAsync(5000);
+            expect(door.getState()).toBe('open');
+
+            sim.exitTrigger(trigger, first);
+            await jest.advanceTimersByTimeAsync(5000);
+            expect(door.getState()).toBe('open');
+
+            sim.exitTrigger(trigger, second);
+            await jest.advanceTimersByTimeAsync(1900);
+            expect(door.getState()).toBe('open');
+            await jest.advanceTimersByTimeAsync(200);
+            expect(door.getState()).toBe('closing');
+        });
+
+        it('cancels the countdown when someone steps back in', async () => {
+            const door = createDoor({ autoCloseDelay: 2 });
+            const player = sim.spawnPlayer('vr');
+            sim.grab(trigger, player);
+            await jest.advanceTimersByTimeAsync(1100);
+
+            sim.enterTrigger(trigger, player);
+            await jest.advanceTimersByTimeAsync(3000);
+
+            expect(door.getState()).toBe('open');
+        });
+
+        it('counts leaving the world as leaving the trigger', async () => {
+            const door = createDoor({ autoOpen: true, autoCloseDelay: 2 });
+            const player = sim.spawnPlayer('mobile');
+            sim.enterTrigger(trigger, player);
+            await jest.advanceTimersByTimeAsync(1100);
+
+            sim.removePlayer(player);
+            await jest.advanceTimersByTimeAsync(2100);
+
+            expect(door.getOccupants()).toEqual([]);
+            expect(door.getState()).toBe('closing');
+        });
+    });
+
+    describe('door kinds', () => {
+        const expectAt = (entity: hz.Entity, x: number, y: number, z: number) => {
+            const position = entity.position.get();
+            expect(position.x).toBeCloseTo(x);
+            expect(position.y).toBeCloseTo(y);
+            expect(position.z).toBeCloseTo(z);
+        };
+
+        const createHingedAt = (props: Partial<UniversalDoor['props']> = {}) => {
+            const pivot = sim.createEntity('DoorHinge');
+            const mapperEntity = sim.createEntity('InputMapper_System');
+            mapper = sim.attach(InputMapper, mapperEntity);
+            trigger = sim.createEntity('DoorTrigger');
+            const doorEntity = sim.createEntity('MyDoor');
+            doorEntity.position.set(new hz.Vec3(1, 0, 0));
+
+            return sim.attach(UniversalDoor, doorEntity, {
+                inputMapper: mapperEntity,
+                interactionTrigger: trigger,
+                hingePivot: pivot,
+                autoCloseDelay: 0,
+                ...props,
+            });
+        };
+
+        it('swings around the hinge pivot', async () => {
+            const door = createHingedAt();
+
+            door.forceDoorOpen();
+            await jest.advanceTimersByTimeAsync(1100);
+
+            expectAt(door.entity, 0, 0, -1);
+            expect(door.entity.rotation.get().toEuler().y).toBeCloseTo(90);
+
+            door.forceDoorClose();
+            await jest.advanceTimersByTimeAsync(1100);
+            expectAt(door.entity, 1, 0, 0);
+        });
+
+        it('swings around any axis', async () => {
+            const door = createDoor({ hingeAxis: new hz.Vec3(1, 0, 0), autoCloseDelay: 0 });
+
+            door.forceDoorOpen();
+            await jest.advanceTimersByTimeAsync(1100);
+
+            expect(door.entity.rotation.get().toEuler().x).toBeCloseTo(90);
+        });
+
+        it('slides along slideOffset without turning', async () => {
+            const door = createDoor({ doorKind: 'sliding', slideOffset: new hz.Vec3(2, 0, 0), autoCloseDelay: 0 });
+
+            door.forceDoorOpen();
+            await jest.advanceTimersByTimeAsync(1100);
+
+            expectAt(door.entity, 2, 0, 0);
+            expect(door.entity.rotation.get().toEuler().y).toBeCloseTo(0);
+        });
+
+        it('slides in the door\'s own space', async () => {
+            const mapperEntity = sim.createEntity('InputMapper_System');
+            sim.attach(InputMapper, mapperEntity);
+            const doorEntity = sim.createEntity('TurnedDoor');
+            doorEntity.rotation.set(hz.Quaternion.fromEuler(new hz.Vec3(0, 90, 0)));
+            const door = sim.attach(UniversalDoor, doorEntity, {
+                inputMapper: mapperEntity,
+                doorKind: 'sliding',
+                slideOffset: new hz.Vec3(1, 0, 0),
+            });
+
+            door.forceDoorOpen();
+            await jest.advanceTimersByTimeAsync(1100);
+
+            expectAt(doorEntity, 0, 0, -1);
+        });
+
+        it('moves the second leaf of a double door the other way', async () => {
+            const secondLeaf = sim.createEntity('RightLeaf');
+            const slidingDoor = createDoor({ doorKind: 'sliding', secondLeaf, autoCloseDelay: 0 });
+
+            slidingDoor.forceDoorOpen();
+            await jest.advanceTimersByTimeAsync(1100);
+
+            expectAt(slidingDoor.entity, 1, 0, 0);
+            expectAt(secondLeaf, -1, 0, 0);
+        });
+
+        it('swings the second leaf of a double hinged door the other way', async () => {
+            const secondLeaf = sim.createEntity('RightLeaf');
+            const door = createDoor({ secondLeaf, autoCloseDelay: 0 });
+
+            door.forceDoorOpen();
+            await jest.advanceTimersByTimeAsync(1100);
+
+            expect(door.entity.rotation.get().toEuler().y).toBeCloseTo(90);
+            expect(secondLeaf.rotation.get().toEuler().y).toBeCloseTo(-90);
+        });
+
+        it.each([
+            ['behind', -2, 1],
+            ['in front of', 2, -1],
+        ])('swings away from a player standing %s the door', async (_side, playerZ, expectedZ) => {
+            const door = createHingedAt({ openAwayFromPlayer: true });
+            const player = sim.spawnPlayer('vr');
+            player.position.set(new hz.Vec3(1, 0, playerZ));
+
+            sim.grab(trigger, player);
+            await jest.advanceTimersByTimeAsync(1100);
+
+            expectAt(door.entity, 0, 0, expectedZ);
+        });
+
+        it('sends the swing direction to player devices', async () => {
+            const door = createHingedAt({ openAwayFromPlayer: true });
+            const clientDoor = sim.attachLocal(sim.spawnPlayer('desktop'), UniversalDoor, door.entity, {
+                hingePivot: door.props.hingePivot,
+            });
+            const send = jest.spyOn(door, 'sendNetworkEvent');
+            const player = sim.spawnPlayer('vr');
+            player.position.set(new hz.Vec3(1, 0, -2));
+
+            sim.grab(trigger, player);
+
+            expect(send).toHaveBeenCalledWith(door.entity, expect.anything(), expect.objectContaining({
+                state: 'opening',
+                swingDirection: -1,
+            }));
+            expect(clientDoor.getState()).toBe('opening');
+        });
+    });
+
+    describe('states and events', () => {
+        it('sends a state change event for every transition', async () => {
+            const door = createDoor({ autoCloseDelay: 1 });
+            const changes = sim.recordLocalEvent(door.entity, DoorStateChangedEvent);
+            const player = sim.spawnPlayer('mobile');
+
+            sim.grab(trigger, player);
+            await jest.advanceTimersByTimeAsync(3500);
+
+            expect(changes.map(({ from, to }) => `${from}->${to}`)).toEqual([
+                'closed->opening', 'opening->open', 'open->closing', 'closing->closed',
+            ]);
+            expect(changes[0]).toMatchObject({ door: door.entity, player });
+            expect(changes[2].player).toBeUndefined();
+        });
+
+        it('sends Code Block events named after each state', async () => {
+            const door = createDoor({ autoCloseDelay: 0 });
+            const events = sim.recordCodeBlockEvents(door.entity, Object.values(DoorCodeBlockEvents));
+
+            sim.grab(trigger, sim.spawnPlayer('vr'));
+            await jest.advanceTimersByTimeAsync(1100);
+
+            expect(events).toEqual(['doorOpening', 'doorOpened']);
+        });
+
+        it('rejects interactions while locked and opens again once unlocked', async () => {
+            const door = createDoor();
+            const player = sim.spawnPlayer('vr', 'Sam');
+
+            door.lock();
+            sim.grab(trigger, player);
+            await jest.advanceTimersByTimeAsync(0);
+            expect(door.getState()).toBe('locked');
+            expect(console.log).toHaveBeenCalledWith("🔒 Sam can't use the door: The door is locked");
+
+            door.unlock();
+            sim.grab(trigger, player);
+            expect(door.getState()).toBe('opening');
+        });
+
+        it('closes an open door before locking it', async () => {
+            const door = createDoor({ autoCloseDelay: 0 });
+            const events = sim.recordCodeBlockEvents(door.entity, Object.values(DoorCodeBlockEvents));
+            door.forceDoorOpen();
+            await jest.advanceTimersByTimeAsync(1100);
+
+            door.lock();
+            expect(door.getState()).toBe('closing');
+
+            await jest.advanceTimersByTimeAsync(1100);
+            expect(door.getState()).toBe('locked');
+
+            door.unlock();
+            expect(events.slice(-4)).toEqual(['doorClosed', 'doorLocked', 'doorUnlocked', 'doorClosed']);
+        });
+
+        it('keeps a door that is closing to lock from being opened again', async () => {
+            const door = createDoor({ autoCloseDelay: 0, autoOpen: true });
+            const player = sim.spawnPlayer('vr', 'Sam');
+            door.forceDoorOpen();
+            await jest.advanceTimersByTimeAsync(1100);
+
+            door.lock();
+            await jest.advanceTimersByTimeAsync(300);
+            sim.grab(trigger, player);
+            sim.enterTrigger(trigger, sim.spawnPlayer('mobile'));
+            door.forceDoorOpen();
+            await jest.advanceTimersByTimeAsync(0);
+
+            expect(door.getState()).toBe('closing');
+            expect(door.isLockedOrLocking()).toBe(true);
+            expect(console.log).toHaveBeenCalledWith("🔒 Sam can't use the door: The door is locked");
+
+            await jest.advanceTimersByTimeAsync(1100);
+            expect(door.getState()).toBe('locked');
+        });
+    });
+
+    describe('multiplayer sync', () => {
+        // A copy of the door, and of its InputMapper, running on `player`'s device - set up like the server's
+        const attachClientDoor = (door: UniversalDoor, player: hz.Player) => {
+            sim.attachLocal(player, InputMapper, mapper.entity);
+            return sim.attachLocal(player, UniversalDoor, door.entity, { ...door.props });
+        };
+
+        it('shows an open door as open, without animating, to a late joiner', async () => {
+            const door = createDoor({ autoCloseDelay: 0 });
+            sim.grab(trigger, sim.spawnPlayer('vr'));
+            await jest.advanceTimersByTimeAsync(1100);
+
+            const lateJoiner = sim.spawnPlayer('mobile');
+            const clientDoor = attachClientDoor(door, lateJoiner);
+
+            expect(clientDoor.getDoorState()).toEqual({ isOpen: true, isAnimating: false });
+            expect(door.entity.rotation.get().toEuler().y).toBeCloseTo(90);
+        });
+
+        it('animates live changes on player devices', async () => {
+            const door = createDoor({ autoCloseDelay: 0 });
+            const clientDoor = attachClientDoor(door, sim.spawnPlayer('desktop'));
+
+            sim.grab(trigger, sim.spawnPlayer('vr'));
+            expect(clientDoor.getDoorState()).toEqual({ isOpen: true, isAnimating: true });
+
+            await jest.advanceTimersByTimeAsync(1100);
+            expect(clientDoor.getDoorState()).toEqual({ isOpen: true, isAnimating: false });
+        });
+
+        // Only the server runs door_interact's handlers - each logs the interaction once
+        const interactionLogs = (player: hz.Player) => (console.log as jest.Mock).mock.calls
+            .filter(([message]) => typeof message === 'string' && message.includes(`user ${player.name.get()}`));
+
+        it.each(['vr', 'mobile', 'desktop'] as const)('toggles once when a %s player with a copy of the door grabs it', async (device) => {
+            const door = createDoor({ autoCloseDelay: 0 });
+            const player = sim.spawnPlayer(device);
+            attachClientDoor(door, player);
+
+            sim.grab(trigger, player);
+            await jest.advanceTimersByTimeAsync(1100);
+
+            expect(door.getDoorState()).toEqual({ isOpen: true, isAnimating: false });
+            expect(interactionLogs(player)).toHaveLength(1);
+        });
+
+        it.each(['mobile', 'desktop'] as const)('toggles once when a %s player presses Interact on a copy of the door', async (device) => {
+            const door = createDoor({ autoCloseDelay: 0 });
+            const player = sim.spawnPlayer(device);
+            attachClientDoor(door, player);
+
+            sim.enterTrigger(trigger, player);
+            sim.pressInput(hz.PlayerInputAction.RightPrimary);
+            await jest.advanceTimersByTimeAsync(1100);
+
+            expect(door.getDoorState()).toEqual({ isOpen: true, isAnimating: false });
+            expect(interactionLogs(player)).toHaveLength(1);
+        });
+
+        it('turns around on player devices when the server door does', async () => {
+            const door = createDoor({ autoCloseDelay: 0 });
+            const clientDoor = attachClientDoor(door, sim.spawnPlayer('desktop'));
+            const player = sim.spawnPlayer('vr');
+
+            sim.grab(trigger, player);
+            await jest.advanceTimersByTimeAsync(300);
+            sim.grab(trigger, player);
+            expect(clientDoor.getState()).toBe('closing');
+
+            await jest.advanceTimersByTimeAsync(1100);
+            expect(clientDoor.getState()).toBe('closed');
+        });
+
+        it('shows a locked door as locked to a late joiner', () => {
+            const door = createDoor();
+            door.lock();
+
+            const clientDoor = attachClientDoor(door, sim.spawnPlayer('mobile'));
+
+            expect(clientDoor.getState()).toBe('locked');
+        });
+
+        it('answers a state request only on the asking player\'s device', async () => {
+            const door = createDoor({ autoCloseDelay: 0 });
+            const first = sim.spawnPlayer('vr');
+            const firstDoor = attachClientDoor(door, first);
+            sim.grab(trigger, first);
+            const send = jest.spyOn(door, 'sendNetworkEvent');
+
+            attachClientDoor(door, sim.spawnPlayer('mobile'));
+
+            expect(send).toHaveBeenCalledTimes(1);
+            expect(firstDoor.getDoorState().isAnimating).toBe(true);
+        });
+
+        it('restores the saved state on start when persistenceKey is set', async () => {
+            sim.world.persistentStorageWorld.values.set('Doors:front', { isOpen: true });
+
+            const door = createDoor({ persistenceKey: 'Doors:front', autoCloseDelay: 0 });
+            await jest.advanceTimersByTimeAsync(0);
+
+            expect(door.getDoorState()).toEqual({ isOpen: true, isAnimating: false });
+            expect(door.entity.rotation.get().toEuler().y).toBeCloseTo(90);
+        });
+
+        it('saves every change when persistenceKey is set', async () => {
+            createDoor({ persistenceKey: 'Doors:front' });
+
+            sim.grab(trigger, sim.spawnPlayer('vr'));
+
+            expect(sim.world.persistentStorageWorld.values.get('Doors:front')).toEqual({ isOpen: true, isLocked: false });
+        });
+
+        it('saves nothing without a persistenceKey', () => {
+            createDoor();
+
+            sim.grab(trigger, sim.spawnPlayer('vr'));
+
+            expect(sim.world.persistentStorageWorld.values.size).toBe(0);
+        });
+    });
+});
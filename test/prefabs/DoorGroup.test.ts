@@ -0,0 +1,183 @@
+import * as hz from 'horizon/core';
+import { InputMapper } from '../../src/inputMapper';
+import { UniversalDoor } from '../../src/prefabs/Door';
+import { DoorGroup, DoorGroupChangedEvent, DoorGroupCodeBlockEvents } from '../../src/prefabs/DoorGroup';
+import { TestWorld } from '../harness';
+
+describe('DoorGroup', () => {
+    let sim: TestWorld;
+    let mapperEntity: hz.Entity;
+
+    interface TestDoor {
+        door: UniversalDoor;
+        trigger: hz.Entity;
+    }
+
+    const createDoor = (name: string, tags: string[] = []): TestDoor => {
+        const trigger = sim.createEntity(`${name}Trigger`);
+        const door = sim.attach(UniversalDoor, sim.createEntity(name, tags), {
+            inputMapper: mapperEntity,
+            interactionTrigger: trigger,
+            autoCloseDelay: 0,
+        });
+        return { door, trigger };
+    };
+
+    const createGroup = (doors: TestDoor[], props: Partial<DoorGroup['props']> = {}) => {
+        const [door1, door2, door3, door4] = doors.map(({ door }) => door.entity);
+        return sim.attach(DoorGroup, sim.createEntity('Group'), { door1, door2, door3, door4, ...props });
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        sim = new TestWorld();
+        mapperEntity = sim.createEntity('InputMapper_System');
+        sim.attach(InputMapper, mapperEntity);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('collects doors from its props and tag, skipping objects without a door', () => {
+        const a = createDoor('A');
+        const b = createDoor('B', ['building']);
+        const c = createDoor('C', ['building']);
+        const shed = sim.createEntity('Shed', ['building']);
+
+        const group = createGroup([a], { doorTag: 'building' });
+
+        expect(group.getDoors()).toEqual([a.door, b.door, c.door]);
+        expect(console.warn).toHaveBeenCalledWith('⚠️ Door Group: Shed has no UniversalDoor script - skipping it');
+        expect(shed.getComponents()).toHaveLength(0);
+    });
+
+    it('opens and closes linked doors together', async () => {
+        const a = createDoor('A');
+        const b = createDoor('B');
+        createGroup([a, b], { linked: true });
+
+        sim.grab(a.trigger, sim.spawnPlayer('vr'));
+        expect(b.door.getState()).toBe('opening');
+
+        await jest.advanceTimersByTimeAsync(1100);
+        expect(b.door.getState()).toBe('open');
+
+        b.door.forceDoorClose();
+        expect(a.door.getState()).toBe('closing');
+    });
+
+    describe('interlocks', () => {
+        it('keeps the other airlock doors shut while one is open', async () => {
+            const outer = createDoor('Outer');
+            const inner = createDoor('Inner');
+            const group = createGroup([outer, inner], { airlock: true });
+            const player = sim.spawnPlayer('desktop');
+
+            sim.grab(outer.trigger, player);
+            await jest.advanceTimersByTimeAsync(1100);
+            sim.grab(inner.trigger, player);
+            await jest.advanceTimersByTimeAsync(1100);
+
+            expect(inner.door.getState()).toBe('closed');
+            expect(group.isBlocked(inner.door)).toBe(true);
+            expect(sim.world.ui.popups.map(({ text }) => text)).toEqual(['🔒 Wait for the other door to close']);
+
+            sim.grab(outer.trigger, player);
+            await jest.advanceTimersByTimeAsync(1100);
+            sim.grab(inner.trigger, player);
+
+            expect(inner.door.getState()).toBe('opening');
+        });
+
+        it('applies one-way rules from addInterlock()', () => {
+            const a = createDoor('A');
+            const b = createDoor('B');
+            const group = createGroup([a, b]);
+            const rule = group.addInterlock(b.door, [a.door]);
+
+            b.door.forceDoorOpen();
+            expect(group.isBlocked(a.door)).toBe(false);
+
+            a.door.forceDoorOpen();
+            expect(group.isBlocked(b.door)).toBe(true);
+
+            rule.disconnect();
+            expect(group.isBlocked(b.door)).toBe(false);
+        });
+
+        it('still lets players close a door its interlock would keep shut', async () => {
+            const a = createDoor('A');
+            const b = createDoor('B');
+            const group = createGroup([a, b]);
+            group.addInterlock(b.door, [a.door]);
+            b.door.forceDoorOpen();
+            a.door.forceDoorOpen();
+            await jest.advanceTimersByTimeAsync(1100);
+
+            sim.grab(b.trigger, sim.spawnPlayer('vr'));
+
+            expect(b.door.getState()).toBe('closing');
+        });
+
+                it('lets openAll() open only what the interlocks allow', () => {
+            const outer = createDoor('Outer');
+            const inner = createDoor('Inner');
+            createGroup([outer, inner], { airlock: true }).openAll();
+
+            expect(outer.door.getState()).toBe('opening');
+            expect(inner.door.getState()).toBe('closed');
+        });
+    });
+
+    it('locks and unlocks every door', async () => {
+        const a = createDoor('A');
+        const b = createDoor('B');
+        const group = createGroup([a, b]);
+        const events = sim.recordCodeBlockEvents(group.entity, [DoorGroupCodeBlockEvents.locked, DoorGroupCodeBlockEvents.unlocked]);
+        a.door.forceDoorOpen();
+        await jest.advanceTimersByTimeAsync(1100);
+
+        group.lockAll('Lockdown in progress');
+        expect(b.door.getState()).toBe('locked');
+        expect(a.door.getState()).toBe('closing');
+
+        await jest.advanceTimersByTimeAsync(1100);
+        expect(a.door.getState()).toBe('locked');
+
+        group.unlockAll();
+        expect(group.getDoors().map((door) => door.getState())).toEqual(['closed', 'closed']);
+        expect(events).toEqual(['doorGroupLocked', 'doorGroupUnlocked']);
+    });
+
+    it('re-sends member changes and reports when the group opens and closes', async () => {
+        const a = createDoor('A');
+        const b = createDoor('B');
+        const group = createGroup([a, b]);
+        const changes = sim.recordLocalEvent(group.entity, DoorGroupChangedEvent);
+        const events = sim.recordCodeBlockEvents(group.entity, [DoorGroupCodeBlockEvents.opened, DoorGroupCodeBlockEvents.closed]);
+
+        group.openAll();
+        await jest.advanceTimersByTimeAsync(1100);
+        group.closeAll();
+        await jest.advanceTimersByTimeAsync(1100);
+
+        expect(changes.filter(({ door }) => door === a.door.entity).map(({ to }) => to))
+            .toEqual(['opening', 'open', 'closing', 'closed']);
+        expect(changes.every(({ group: entity }) => entity === group.entity)).toBe(true);
+        expect(events).toEqual(['doorGroupOpened', 'doorGroupClosed']);
+    });
+
+    it('lets its doors go when disposed', async () => {
+        const outer = createDoor('Outer');
+        const inner = createDoor('Inner');
+        const group = createGroup([outer, inner], { airlock: true, linked: true });
+
+        sim.detach(group);
+        outer.door.forceDoorOpen();
+        sim.grab(inner.trigger, sim.spawnPlayer('vr'));
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(inner.door.getState()).toBe('opening');
+    });
+});
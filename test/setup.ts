@@ -0,0 +1,11 @@
+// Our scripts log heavily by design - keep test output readable while still
+// letting tests assert on console.warn / console.error calls.
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
@@ -0,0 +1,162 @@
+import * as hz from 'horizon/core';
+import { Easing, Tweener } from '../src/tween';
+import { TestWorld } from './harness';
+
+class TweenHost extends hz.Component<typeof TweenHost> {
+    static propsDefinition = {};
+    start() {}
+}
+
+describe('Easing', () => {
+    it.each(Object.keys(Easing) as Array<keyof typeof Easing>)('%s starts at 0 and ends at 1', (name) => {
+        expect(Easing[name](0)).toBeCloseTo(0);
+        expect(Easing[name](1)).toBeCloseTo(1);
+    });
+});
+
+describe('Tweener', () => {
+    let sim: TestWorld;
+    let host: TweenHost;
+    let tweens: Tweener;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        sim = new TestWorld();
+        host = sim.attach(TweenHost, sim.createEntity('Host'));
+        tweens = new Tweener(host);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('applies the start value immediately and the end value when done', async () => {
+        const values: number[] = [];
+        const tween = tweens.number(0, 10, (value) => values.push(value), { duration: 1, easing: 'linear' });
+
+        expect(values).toEqual([0]);
+
+        await jest.advanceTimersByTimeAsync(1100);
+
+        expect(values[values.length - 1]).toBe(10);
+        expect(tween.status).toBe('completed');
+        await expect(tween.finished).resolves.toBe('completed');
+    });
+
+    it('moves with the easing curve', () => {
+        let value = 0;
+        tweens.number(0, 1, (next) => value = next, { duration: 1, easing: 'easeInQuad' });
+
+        tweens.update(0.5);
+
+        expect(value).toBeCloseTo(0.25);
+    });
+
+    it('waits out the delay before moving', () => {
+        let value = 0;
+        tweens.number(0, 1, (next) => value = next, { duration: 1, easing: 'linear', delay: 0.5 });
+
+        tweens.update(0.4);
+        expect(value).toBe(0);
+
+        tweens.update(0.3);
+        expect(value).toBeCloseTo(0.2);
+    });
+
+    it('finishes zero-length tweens straight away', () => {
+        let value = 0;
+        const tween = tweens.number(0, 5, (next) => value = next, { duration: 0 });
+
+        expect(value).toBe(5);
+        expect(tween.status).toBe('completed');
+    });
+
+    it('stops where it is when cancelled', async () => {
+        let value = 0;
+        const tween = tweens.number(0, 1, (next) => value = next, { duration: 1, easing: 'linear' });
+        tweens.update(0.25);
+
+        tween.cancel();
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(value).toBeCloseTo(0.25);
+        await expect(tween.finished).resolves.toBe('cancelled');
+    });
+
+    it('heads back from its current value when reversed', () => {
+        let value = 0;
+        const tween = tweens.number(0, 1, (next) => value = next, { duration: 1, easing: 'linear' });
+        tweens.update(0.6);
+
+        tween.reverse();
+        tweens.update(0.2);
+        expect(value).toBeCloseTo(0.4);
+        expect(tween.isReversed).toBe(true);
+
+        tweens.update(0.5);
+        expect(value).toBe(0);
+        expect(tween.status).toBe('completed');
+    });
+
+    it('slerps rotations, keeping them unit length', () => {
+        const entity = sim.createEntity('Door');
+        const open = hz.Quaternion.fromEuler(new hz.Vec3(0, 90, 0));
+        tweens.rotation(entity, open, { duration: 1, easing: 'linear' });
+
+        tweens.update(0.5);
+
+        const rotation = entity.rotation.get();
+        expect(Math.hypot(rotation.x, rotation.y, rotation.z, rotation.w)).toBeCloseTo(1);
+        expect(rotation.toEuler().y).toBeCloseTo(45);
+    });
+
+    it('tweens entity position and scale', () => {
+        const entity = sim.createEntity('Crate');
+        tweens.position(entity, new hz.Vec3(0, 2, 0), { duration: 1, easing: 'linear' });
+        tweens.scale(entity, new hz.Vec3(3, 3, 3), { duration: 1, easing: 'linear' });
+
+        tweens.update(0.5);
+
+        expect(entity.position.get().y).toBeCloseTo(1);
+        expect(entity.scale.get().x).toBeCloseTo(2);
+    });
+
+    it('listens to the update loop only while tweens are running', async () => {
+        const frameListeners = () => [...sim.world.localListeners].filter((listener) => listener.event === hz.World.onUpdate);
+
+        expect(frameListeners()).toHaveLength(0);
+
+        tweens.number(0, 1, () => {}, { duration: 0.5 });
+        expect(frameListeners()).toHaveLength(1);
+        expect(tweens.activeCount).toBe(1);
+
+        await jest.advanceTimersByTimeAsync(600);
+        expect(frameListeners()).toHaveLength(0);
+        expect(tweens.activeCount).toBe(0);
+    });
+
+    it('cancels every tween with cancelAll()', () => {
+        const first = tweens.number(0, 1, () => {}, { duration: 1 });
+        const second = tweens.vec3(hz.Vec3.zero, new hz.Vec3(1, 1, 1), () => {}, { duration: 1 });
+
+        tweens.cancelAll();
+
+        expect(first.status).toBe('cancelled');
+        expect(second.status).toBe('cancelled');
+        expect(tweens.activeCount).toBe(0);
+    });
+
+    it('cancels a tween whose update throws and keeps the others going', () => {
+        let value = 0;
+        const broken = tweens.number(0, 1, (next) => {
+            if (next > 0) throw new Error('boom');
+        }, { duration: 1 });
+        tweens.number(0, 1, (next) => value = next, { duration: 1, easing: 'linear' });
+
+        tweens.update(0.5);
+
+        expect(broken.status).toBe('cancelled');
+        expect(value).toBeCloseTo(0.5);
+        expect(console.error).toHaveBeenCalledWith('❌ Error in tween update:', expect.any(Error));
+    });
+});